@@ -0,0 +1,42 @@
+import { App } from "@slack/bolt";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+
+let achievements: typeof import("./achievements");
+let saveData: typeof import("./saveData")["saveData"];
+
+before(async () => {
+  // Keep the real save data out of this, since achievements are stored with the players
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.SAVE_DATA_PATH = path.join(testDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(testDirectory, "saveData.db");
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.env.RULESET_HISTORY_PATH = path.join(testDirectory, "rulesetHistory.log");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  achievements = await import("./achievements");
+  ({ saveData } = await import("./saveData"));
+  (await import("./config")).config.announcements = "none";
+  await saveData.ready;
+});
+
+// Checks a message that followed an empty ruleset, and returns whether it unlocked Perfect Pangram
+function unlocksPerfectPangram(playerID: string, text: string): boolean {
+  achievements.checkMessageAchievements(playerID, text, "C1", "1.000", [], {} as App);
+  return Object.hasOwn(saveData.getAchievements(playerID), achievements.Achievement.PerfectPangram);
+}
+
+test("a message with every letter exactly once is a perfect pangram", () => {
+  assert.equal(unlocksPerfectPangram("U1", "Mr Jock, TV quiz PhD, bags few lynx."), true);
+  // Only what the player wrote counts
+  assert.equal(unlocksPerfectPangram("U2", "<@U123> Mr Jock, TV quiz PhD, bags few lynx :tada:"), true);
+});
+
+test("messages that miss or repeat letters aren't perfect pangrams", () => {
+  assert.equal(unlocksPerfectPangram("U3", "The quick brown fox jumps over the lazy dog"), false);
+  assert.equal(unlocksPerfectPangram("U3", "Mr Jock, TV quiz PhD, bags few"), false);
+});
@@ -0,0 +1,116 @@
+import { App } from "@slack/bolt";
+import { config } from "./config";
+import { parseMessage, renderMessage } from "./messageParser";
+import { getActiveRulesetDifficulty, rulesetHasBeenFollowed } from "./rules";
+import { saveData } from "./saveData";
+import { queueSlackCall } from "./slackQueue";
+
+/**
+ * The achievements players can unlock, each once.
+ */
+export enum Achievement {
+    HardRuleset = "hard-ruleset",
+    PerfectPangram = "perfect-pangram",
+    FirstToFollow = "first-to-follow",
+    WeekStreak = "week-streak",
+    CharadesGuess = "charades-guess"
+};
+
+/**
+ * Gets how each achievement is shown, with the thresholds currently in the config.
+ * @returns
+ */
+function getAchievementDetails(): { [achievement in Achievement]: { emoji: string, name: string, description: string } } {
+    const { hardRulesetStars, weekStreakDays } = config.achievements;
+    return {
+        [Achievement.HardRuleset]: { emoji: ":tw_star:", name: "Star Student", description: `Follow a ruleset rated ${hardRulesetStars} or more stars.` },
+        [Achievement.PerfectPangram]: { emoji: ":abc:", name: "Perfect Pangram", description: "Use every letter of the alphabet exactly once in a message." },
+        [Achievement.FirstToFollow]: { emoji: ":checkered_flag:", name: "Quick Study", description: "Send the first message that follows a new ruleset." },
+        [Achievement.WeekStreak]: { emoji: ":calendar:", name: "Regular", description: `Earn points ${weekStreakDays} days in a row.` },
+        [Achievement.CharadesGuess]: { emoji: ":performing_arts:", name: "Mind Reader", description: "Guess someone's word in Charades." }
+    };
+}
+
+/**
+ * Unlocks an achievement for a player and announces it in the thread of the message that earned it.
+ * Does nothing if the player already has the achievement.
+ * @param playerID
+ * @param achievement
+ * @param channelID The channel the achievement was earned in.
+ * @param ts The timestamp of the message that earned it.
+ * @param app
+ */
+export function unlockAchievement(playerID: string, achievement: Achievement, channelID: string, ts: string, app: App) {
+    if(!saveData.getPlayer(playerID).unlockAchievement(achievement, Date.now())) return;
+    console.log("\x1b[32m", `${playerID} unlocked the ${achievement} achievement!`, "\x1b[0m");
+
+    if(config.announcements !== "all") return;
+
+    const { emoji, name, description } = getAchievementDetails()[achievement];
+    queueSlackCall(channelID, `announce ${playerID}'s ${achievement} achievement`, () => app.client.chat.postMessage({
+        channel: channelID,
+        text: `${emoji} <@${playerID}> unlocked the *${name}* achievement! _${description}_`,
+        thread_ts: ts
+    })).catch(error => console.error("Failed to announce an achievement:", error));
+}
+
+/**
+ * Unlocks any achievements earned by a message that followed the active rules. Must be called after the message
+ * is scored, but before it's added to the channel's violation history.
+ * @param playerID The ID of the player who sent the message.
+ * @param text The message's text.
+ * @param channelID The channel the message was sent in.
+ * @param ts The message's timestamp.
+ * @param ruleset The IDs of the rules the message followed.
+ * @param app
+ */
+export function checkMessageAchievements(playerID: string, text: string, channelID: string, ts: string, ruleset: string[], app: App) {
+    if(ruleset.length > 0 && !rulesetHasBeenFollowed(channelID)) {
+        unlockAchievement(playerID, Achievement.FirstToFollow, channelID, ts, app);
+    }
+
+    if(Math.round(getActiveRulesetDifficulty(channelID)) >= config.achievements.hardRulesetStars) {
+        unlockAchievement(playerID, Achievement.HardRuleset, channelID, ts, app);
+    }
+
+    if(isPerfectPangram(text)) {
+        unlockAchievement(playerID, Achievement.PerfectPangram, channelID, ts, app);
+    }
+
+    if(saveData.getPlayer(playerID).getDayStreak() >= config.achievements.weekStreakDays) {
+        unlockAchievement(playerID, Achievement.WeekStreak, channelID, ts, app);
+    }
+}
+
+/**
+ * Checks whether a message uses every letter of the alphabet exactly once, ignoring mentions, links, emoji and code.
+ * @param text
+ * @returns
+ */
+function isPerfectPangram(text: string): boolean {
+    const letters = renderMessage(parseMessage(text)).toLowerCase().match(/[a-z]/g) ?? [];
+    return letters.length === 26 && new Set(letters).size === 26;
+}
+
+/**
+ * Lists the achievements a player has unlocked.
+ * @param playerID
+ * @returns
+ */
+export function getAchievementSummary(playerID: string): string {
+    const achievementDetails = getAchievementDetails();
+    const unlocked = Object.entries(saveData.getAchievements(playerID))
+        .filter(([id]) => Object.hasOwn(achievementDetails, id))
+        .sort(([, a], [, b]) => a - b);
+    const total = Object.keys(achievementDetails).length;
+    if(unlocked.length === 0) {
+        return `No achievements yet (0/${total}).`;
+    }
+
+    let summary = `Achievements (${unlocked.length}/${total}):  \n`;
+    summary += unlocked.map(([id, time]) => {
+        const { emoji, name, description } = achievementDetails[id as Achievement];
+        return `${emoji} *${name}*: ${description} (${new Date(time).toISOString().slice(0, 10)})`;
+    }).join("  \n");
+    return summary;
+}
@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+
+let auditLogPath: string;
+let recordAdminAction: typeof import("./auditLog")["recordAdminAction"];
+let getRecentAdminActions: typeof import("./auditLog")["getRecentAdminActions"];
+
+before(async () => {
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  auditLogPath = path.join(testDirectory, "auditLog.log");
+  process.env.AUDIT_LOG_PATH = auditLogPath;
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the module loads
+  ({ recordAdminAction, getRecentAdminActions } = await import("./auditLog"));
+});
+
+test("admin actions are read back oldest first", async () => {
+  assert.deepEqual(await getRecentAdminActions(10), []);
+  await recordAdminAction("U1", "C1", "started the game");
+  await recordAdminAction("U2", "C1", "set the enforcement level to Timeout");
+  await recordAdminAction("U1", "C2", "stopped the game");
+
+  const entries = await getRecentAdminActions(2);
+  assert.deepEqual(entries.map(entry => [entry.userID, entry.channelID, entry.action]), [
+    ["U2", "C1", "set the enforcement level to Timeout"],
+    ["U1", "C2", "stopped the game"]
+  ]);
+});
+
+test("lines that can't be read are skipped", async () => {
+  // Like a line cut off by a crash in the middle of writing it
+  fs.appendFileSync(auditLogPath, "{\"time\": 1, \"userID\": \"U3\"\n");
+  await recordAdminAction("U3", "C3", "removed the channel");
+
+  const entries = await getRecentAdminActions(10);
+  assert.equal(entries.length, 4);
+  assert.equal(entries[3].action, "removed the channel");
+});
@@ -0,0 +1,49 @@
+import * as fsPromises from "fs/promises";
+import { config } from "./config";
+import { parseJSONLines } from "./storage";
+
+/**
+ * Something an admin did, or tried to do, with the admin command.
+ */
+export type AuditEntry = {
+    /** When the action happened, in milliseconds since the Unix epoch. */
+    time: number;
+    userID: string;
+    channelID: string;
+    /** A description of the action, like "set the ruleset to no-spaces, all-lowercase". */
+    action: string;
+};
+
+// One JSON object per line, so entries can be appended without reading the whole file
+const auditLogPath = process.env.AUDIT_LOG_PATH ?? config.paths.auditLog;
+
+/**
+ * Appends an action to the audit log.
+ * @param userID
+ * @param channelID
+ * @param action
+ */
+export async function recordAdminAction(userID: string, channelID: string, action: string): Promise<void> {
+    const entry: AuditEntry = { time: Date.now(), userID, channelID, action };
+    console.log("\x1b[35m", `Admin action by ${userID} in ${channelID}: ${action}`, "\x1b[0m");
+    try {
+        await fsPromises.appendFile(auditLogPath, JSON.stringify(entry) + "\n");
+    } catch {
+        console.error("Failed to write to the audit log.");
+    }
+}
+
+/**
+ * Gets the most recent entries in the audit log, oldest first.
+ * @param count
+ * @returns
+ */
+export async function getRecentAdminActions(count: number): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+        content = await fsPromises.readFile(auditLogPath, "utf-8");
+    } catch {
+        return [];
+    }
+    return parseJSONLines<AuditEntry>(content, auditLogPath).slice(-count);
+}
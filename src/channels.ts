@@ -0,0 +1,174 @@
+import { App } from "@slack/bolt";
+import { onConfigChange } from "./config";
+import { EnforcementLevel, parseEnforcementLevel } from "./enforcement";
+import { GameMode, parseGameMode, startGame, stopGame } from "./gamemodes";
+import { defaultDifficultySettings, DifficultySettings, initializeRules, removeRules, setDifficultySettings, setVoting } from "./rules";
+import { saveData, SerializedChannelSettings } from "./saveData";
+
+/**
+ * The settings of a channel the game is running in.
+ */
+export type ChannelSettings = DifficultySettings & {
+    gameMode: GameMode,
+    /** Whether an admin has stopped the rules from being enforced for now. */
+    paused: boolean,
+    /** Whether players vote on the next ruleset when it changes. */
+    voting: boolean,
+    /** What happens to messages that violate the rules. */
+    enforcement: EnforcementLevel,
+    /** The IDs of players the rules don't apply to, like moderators. */
+    exemptUsers: string[],
+    /** The IDs of extra rules that only apply to the players on a team, keyed by the team's name. */
+    teamRules: { [team: string]: string[] }
+};
+
+export const defaultChannelSettings: ChannelSettings = {
+    ...defaultDifficultySettings,
+    gameMode: GameMode.Charades,
+    paused: false,
+    voting: false,
+    enforcement: EnforcementLevel.Warn,
+    exemptUsers: [],
+    teamRules: {}
+};
+// New channels should start with the difficulty settings from the latest config
+onConfigChange(config => Object.assign(defaultChannelSettings, config.defaultDifficulty));
+
+/**
+ * Converts channel settings from their saved format, falling back to the defaults for anything invalid.
+ * @param data
+ * @returns
+ */
+function deserializeSettings(data: SerializedChannelSettings): ChannelSettings {
+    const gameMode = parseGameMode(data.gameMode ?? "");
+    const enforcement = parseEnforcementLevel(data.enforcement ?? "");
+    return {
+        roughDifficulty: data.roughDifficulty ?? defaultChannelSettings.roughDifficulty,
+        minFailRatio: data.minFailRatio ?? defaultChannelSettings.minFailRatio,
+        maxFailRatio: data.maxFailRatio ?? defaultChannelSettings.maxFailRatio,
+        gameMode: gameMode ?? defaultChannelSettings.gameMode,
+        paused: data.paused ?? defaultChannelSettings.paused,
+        voting: data.voting ?? defaultChannelSettings.voting,
+        enforcement: enforcement ?? defaultChannelSettings.enforcement,
+        exemptUsers: data.exemptUsers ?? defaultChannelSettings.exemptUsers,
+        teamRules: data.teamRules ?? defaultChannelSettings.teamRules
+    };
+}
+
+/**
+ * Converts channel settings to a format that can be saved to a file.
+ * @param settings
+ * @returns
+ */
+function serializeSettings(settings: ChannelSettings): SerializedChannelSettings {
+    return {
+        roughDifficulty: settings.roughDifficulty,
+        minFailRatio: settings.minFailRatio,
+        maxFailRatio: settings.maxFailRatio,
+        gameMode: GameMode[settings.gameMode],
+        paused: settings.paused,
+        voting: settings.voting,
+        enforcement: EnforcementLevel[settings.enforcement],
+        exemptUsers: settings.exemptUsers,
+        teamRules: settings.teamRules
+    };
+}
+
+/**
+ * Gets the IDs of every channel the game is running in.
+ * @returns
+ */
+export function getGameChannels(): string[] {
+    return Object.keys(saveData.getChannels());
+}
+
+/**
+ * Checks whether the game is running in a channel.
+ * @param channelID
+ * @returns
+ */
+export function isGameChannel(channelID: string): boolean {
+    return saveData.getChannels()[channelID] !== undefined;
+}
+
+/**
+ * Gets the settings of a channel the game is running in.
+ * @param channelID
+ * @returns The channel's settings, or undefined if the game isn't running in the channel.
+ */
+export function getChannelSettings(channelID: string): ChannelSettings | undefined {
+    const data = saveData.getChannels()[channelID];
+    return data === undefined ? undefined : deserializeSettings(data);
+}
+
+/**
+ * Starts the rules and game mode in every saved channel. Should be called once the save data has loaded.
+ * If no channels have been saved yet, the channel in the CHANNEL_ID environment variable is added for compatibility
+ * with older setups.
+ * @param app
+ */
+export function initializeChannels(app: App) {
+    if(getGameChannels().length === 0 && process.env.CHANNEL_ID) {
+        console.log("\x1b[33m", `Adding ${process.env.CHANNEL_ID} from the CHANNEL_ID environment variable.`, "\x1b[0m");
+        saveData.setChannel(process.env.CHANNEL_ID, serializeSettings(defaultChannelSettings));
+    }
+
+    for(const channelID of getGameChannels()) {
+        const settings = getChannelSettings(channelID)!;
+        initializeRules(channelID, settings, app);
+        setVoting(channelID, settings.voting);
+        startGame(channelID, settings.gameMode, app);
+    }
+}
+
+/**
+ * Starts running the game in a channel.
+ * @param channelID
+ * @param settings
+ * @param app
+ * @returns Whether the channel was added; false if the game was already running there.
+ */
+export function addChannel(channelID: string, settings: ChannelSettings, app: App): boolean {
+    if(isGameChannel(channelID)) return false;
+
+    saveData.setChannel(channelID, serializeSettings(settings));
+    initializeRules(channelID, settings, app);
+    setVoting(channelID, settings.voting);
+    startGame(channelID, settings.gameMode, app);
+    return true;
+}
+
+/**
+ * Stops running the game in a channel.
+ * @param channelID
+ * @returns Whether the channel was removed; false if the game wasn't running there.
+ */
+export function removeChannel(channelID: string): boolean {
+    if(!isGameChannel(channelID)) return false;
+
+    saveData.removeChannel(channelID);
+    removeRules(channelID);
+    stopGame(channelID);
+    return true;
+}
+
+/**
+ * Updates the settings of a channel the game is running in, restarting the game if the game mode changed.
+ * @param channelID
+ * @param changes
+ * @param app
+ * @returns Whether the settings were updated; false if the game isn't running in the channel.
+ */
+export function updateChannelSettings(channelID: string, changes: Partial<ChannelSettings>, app: App): boolean {
+    const oldSettings = getChannelSettings(channelID);
+    if(oldSettings === undefined) return false;
+
+    const settings = { ...oldSettings, ...changes };
+    saveData.setChannel(channelID, serializeSettings(settings));
+    setDifficultySettings(channelID, settings);
+    setVoting(channelID, settings.voting);
+    if(settings.gameMode !== oldSettings.gameMode) {
+        startGame(channelID, settings.gameMode, app);
+    }
+    return true;
+}
@@ -0,0 +1,20 @@
+// The game reads the time from here instead of Date.now() so the simulator can replay history at its own pace, and tests
+// can move it along
+
+let clock: () => number = () => Date.now();
+
+/**
+ * Gets the current time, in milliseconds since the Unix epoch.
+ * @returns
+ */
+export function now(): number {
+  return clock();
+}
+
+/**
+ * Replaces the clock, for example with a simulated one.
+ * @param newClock
+ */
+export function setClock(newClock: () => number) {
+  clock = newClock;
+}
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { loadConfig } from "./config";
+
+let testDirectory: string;
+
+before(() => {
+  testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+});
+
+// Writes a config file, and returns a function that loads it
+function configLoader(content: unknown) {
+  const configPath = path.join(testDirectory, "config.json");
+  fs.writeFileSync(configPath, JSON.stringify(content));
+  return () => loadConfig(configPath);
+}
+
+test("a missing config file gives the defaults", () => {
+  const config = loadConfig(path.join(testDirectory, "missing.json"));
+  assert.equal(config.scoring.violationPenalty, 2);
+  assert.equal(config.announcements, "all");
+  assert.equal(config.storage, "json");
+});
+
+test("fields the file leaves out keep their defaults", () => {
+  const config = configLoader({ scoring: { violationPenalty: 5 }, storage: "sqlite" })();
+  assert.equal(config.scoring.violationPenalty, 5);
+  assert.equal(config.scoring.compliancePointsPerStar, 1);
+  assert.equal(config.deduction.guessPoints, 20);
+  assert.equal(config.storage, "sqlite");
+});
+
+test("unknown sections and fields are rejected", () => {
+  assert.throws(configLoader({ scoreing: {} }), /Unknown section "scoreing"/);
+  assert.throws(configLoader({ scoring: { penalty: 5 } }), /scoring has unknown field "penalty"/);
+  assert.throws(configLoader({ storage: "postgres" }), /storage must be one of json, sqlite/);
+  assert.throws(configLoader([]), /The config must be an object/);
+});
+
+test("numbers out of range or of the wrong kind are rejected", () => {
+  assert.throws(configLoader({ engine: { changeChance: 1.5 } }), /engine\.changeChance must be a number from 0 to 1/);
+  assert.throws(configLoader({ deduction: { hiddenRules: 1.5 } }), /deduction\.hiddenRules must be a whole number of at least 1/);
+  assert.throws(configLoader({ scoring: { violationPenalty: "2" } }), /scoring\.violationPenalty must be a number/);
+  assert.throws(configLoader({ paths: { saveData: "" } }), /paths\.saveData must be a non-empty string/);
+});
+
+test("settings that contradict each other once defaults are filled in are rejected", () => {
+  assert.throws(configLoader({ enforcement: { baseCooldown: 1000 * 60 * 60 * 48 } }), /baseCooldown can't be more than enforcement\.maxCooldown/);
+  assert.throws(configLoader({ defaultDifficulty: { minFailRatio: 0.6 } }), /minFailRatio must be less than/);
+});
+
+test("a file that isn't JSON is rejected", () => {
+  const configPath = path.join(testDirectory, "broken.json");
+  fs.writeFileSync(configPath, "{ engine: ");
+  assert.throws(() => loadConfig(configPath), /Couldn't read the config file/);
+});
@@ -0,0 +1,360 @@
+import * as fs from "fs";
+
+// The bot's tuning values are read from a config file, which is watched so they can be changed without a restart.
+// Anything left out of the file keeps its default.
+
+/** How ruleset changes are announced in game channels. */
+export type AnnouncementLevel = "all" | "canvasOnly" | "none";
+
+/** Where the save data is kept. */
+export type StorageType = "json" | "sqlite";
+
+export type Config = {
+  /** Tuning values for how the rules adapt, shared by every channel. Durations are in milliseconds. */
+  engine: {
+    minimumTimeBetweenChanges: number,
+    maximumTimeBetweenChanges: number,
+    minimumSampleSize: number, // We need at least this many messages to make a decision
+    maximumMessagesUntilChange: number, // We will change the ruleset after this many messages, regardless of the fail ratio
+    changeChance: number, // The chance of changing the ruleset based on the fail ratio after the maximum number of messages has been reached
+    completeChangeChance: number, // The chance of the ruleset being completely replaced after the maximum number of messages has been reached
+    mutationIterations: number, // The number of times we randomly mutate the current ruleset before evaluating the change
+    mutationAmount: number, // The number of rules we randomly change in the ruleset when mutating
+    voteOptions: number, // The most rulesets players can choose between in channels that vote on changes
+    voteDuration: number
+  },
+  /** The difficulty settings new game channels start with. */
+  defaultDifficulty: {
+    roughDifficulty: number,
+    minFailRatio: number,
+    maxFailRatio: number
+  },
+  /** How players earn and lose points for following the rules. */
+  scoring: {
+    compliancePointsPerStar: number, // Points given for a message that follows the rules, per star of ruleset difficulty
+    streakMultiplierStep: number, // How much each consecutive compliant message increases the point multiplier
+    maxStreakMultiplier: number, // The highest the streak multiplier can go
+    violationPenalty: number, // Points taken from a player for each rule their message violates
+    minimumScoringLength: number, // Messages with fewer non-whitespace characters than this don't earn points
+    scoringCooldown: number, // Players can only earn compliance points this often
+    recentMessagesTracked: number // Messages that repeat one of a player's last few messages don't earn points
+  },
+  charades: {
+    inactivityTimeout: number, // Players who haven't sent a message in this long lose their word
+    guesserPoints: number, // Points given to a player who guesses someone's word
+    describerPoints: number, // Points given to a player whose word is guessed
+    ownWordPenalty: number // Points taken from a player who says their own word
+  },
+  deduction: {
+    hiddenRules: number, // How many rules of each ruleset are kept secret, from the next time the game mode starts
+    guessPoints: number, // Points given to a player who guesses a secret rule
+    wrongGuessPenalty: number, // Points taken from a player who guesses wrong
+    guessesPerRuleset: number // How many guesses each player gets until the ruleset changes
+  },
+  /** Cooldowns for players who break the rules in channels with the Timeout enforcement level. */
+  enforcement: {
+    baseCooldown: number, // The first cooldown, with each one after that lasting twice as long as the last
+    maxCooldown: number,
+    offenseMemory: number // Players who go this long without violating a rule start again from the first cooldown
+  },
+  achievements: {
+    hardRulesetStars: number, // The rounded difficulty a ruleset needs for Star Student
+    weekStreakDays: number // The days in a row a player needs to earn points in for Regular
+  },
+  /** How often things happen in the background, in milliseconds. */
+  intervals: {
+    evaluateChanges: number,
+    autosave: number
+  },
+  /** Where the bot keeps its files. These only take effect on restart, and environment variables override them. */
+  paths: {
+    rules: string,
+    saveData: string,
+    /** The save data's file when it's kept in SQLite. */
+    saveDatabase: string,
+    messageIndex: string,
+    auditLog: string,
+    rulesetHistory: string
+  },
+  /** "canvasOnly" only updates the channel canvas, and "none" doesn't touch the channel at all, which is handy for testing. */
+  announcements: AnnouncementLevel,
+  /** Only takes effect on restart; use `npm run migrate-storage` to move the save data over first. */
+  storage: StorageType
+};
+
+const defaultConfig: Config = {
+  engine: {
+    minimumTimeBetweenChanges: 1000 * 60 * 5, // 5 minutes
+    maximumTimeBetweenChanges: 1000 * 60 * 60 * 5, // 5 hours
+    minimumSampleSize: 10,
+    maximumMessagesUntilChange: 100,
+    changeChance: 0.3,
+    completeChangeChance: 0.05,
+    mutationIterations: 15,
+    mutationAmount: 3,
+    voteOptions: 3,
+    voteDuration: 1000 * 60 * 10 // 10 minutes
+  },
+  defaultDifficulty: {
+    roughDifficulty: 6,
+    minFailRatio: 0.1,
+    maxFailRatio: 0.5
+  },
+  scoring: {
+    compliancePointsPerStar: 1,
+    streakMultiplierStep: 0.1,
+    maxStreakMultiplier: 3,
+    violationPenalty: 2,
+    minimumScoringLength: 5,
+    scoringCooldown: 1000 * 20, // 20 seconds
+    recentMessagesTracked: 10
+  },
+  charades: {
+    inactivityTimeout: 1000 * 60 * 60 * 2, // 2 hours
+    guesserPoints: 10,
+    describerPoints: 10,
+    ownWordPenalty: 5
+  },
+  deduction: {
+    hiddenRules: 1,
+    guessPoints: 20,
+    wrongGuessPenalty: 5,
+    guessesPerRuleset: 3
+  },
+  enforcement: {
+    baseCooldown: 1000 * 60, // 1 minute
+    maxCooldown: 1000 * 60 * 60 * 24, // 1 day
+    offenseMemory: 1000 * 60 * 60 * 24 // 1 day
+  },
+  achievements: {
+    hardRulesetStars: 10,
+    weekStreakDays: 7
+  },
+  intervals: {
+    evaluateChanges: 1000 * 60 * 5, // 5 minutes
+    autosave: 1000 * 60 * 5 // 5 minutes
+  },
+  paths: {
+    rules: "rules.json",
+    saveData: "saveData.json",
+    saveDatabase: "saveData.db",
+    messageIndex: "messageIndex.json",
+    auditLog: "audit.log",
+    rulesetHistory: "rulesetHistory.log"
+  },
+  announcements: "all",
+  storage: "json"
+};
+
+type ConfigSection = Exclude<keyof Config, "announcements" | "storage">;
+
+/** A config file that has been validated, which can leave out anything that should keep its default. */
+type ConfigFile = Partial<{ [section in ConfigSection]: Partial<Config[section]> } & Pick<Config, "announcements" | "storage">>;
+
+type NumberField = { min: number, max?: number, integer?: boolean };
+
+const numberFields: { [section in Exclude<ConfigSection, "paths">]: { [field: string]: NumberField } } = {
+  engine: {
+    minimumTimeBetweenChanges: { min: 0 },
+    maximumTimeBetweenChanges: { min: 0 },
+    minimumSampleSize: { min: 1, integer: true },
+    maximumMessagesUntilChange: { min: 1, integer: true },
+    changeChance: { min: 0, max: 1 },
+    completeChangeChance: { min: 0, max: 1 },
+    mutationIterations: { min: 1, integer: true },
+    mutationAmount: { min: 1, integer: true },
+    voteOptions: { min: 2, integer: true },
+    voteDuration: { min: 1000 }
+  },
+  defaultDifficulty: {
+    roughDifficulty: { min: 0 },
+    minFailRatio: { min: 0, max: 1 },
+    maxFailRatio: { min: 0, max: 1 }
+  },
+  scoring: {
+    compliancePointsPerStar: { min: 0 },
+    streakMultiplierStep: { min: 0 },
+    maxStreakMultiplier: { min: 1 },
+    violationPenalty: { min: 0 },
+    minimumScoringLength: { min: 0, integer: true },
+    scoringCooldown: { min: 0 },
+    recentMessagesTracked: { min: 0, integer: true }
+  },
+  charades: {
+    inactivityTimeout: { min: 1000 },
+    guesserPoints: { min: 0, integer: true },
+    describerPoints: { min: 0, integer: true },
+    ownWordPenalty: { min: 0, integer: true }
+  },
+  deduction: {
+    hiddenRules: { min: 1, integer: true },
+    guessPoints: { min: 0, integer: true },
+    wrongGuessPenalty: { min: 0, integer: true },
+    guessesPerRuleset: { min: 1, integer: true }
+  },
+  enforcement: {
+    baseCooldown: { min: 1000 },
+    maxCooldown: { min: 1000 },
+    offenseMemory: { min: 0 }
+  },
+  achievements: {
+    hardRulesetStars: { min: 0 },
+    weekStreakDays: { min: 1, integer: true }
+  },
+  intervals: {
+    evaluateChanges: { min: 1000 },
+    autosave: { min: 1000 }
+  }
+};
+
+const announcementLevels: AnnouncementLevel[] = ["all", "canvasOnly", "none"];
+const storageTypes: StorageType[] = ["json", "sqlite"];
+
+function validateConfigFile(data: unknown): string[] {
+  if(typeof data !== "object" || data === null || Array.isArray(data)) return ["The config must be an object."];
+  const errors: string[] = [];
+
+  for(const [section, value] of Object.entries(data)) {
+    if(section === "announcements") {
+      if(!announcementLevels.includes(value as AnnouncementLevel)) errors.push(`announcements must be one of ${announcementLevels.join(", ")}.`);
+      continue;
+    }
+    if(section === "storage") {
+      if(!storageTypes.includes(value as StorageType)) errors.push(`storage must be one of ${storageTypes.join(", ")}.`);
+      continue;
+    }
+    if(!Object.hasOwn(defaultConfig, section)) {
+      errors.push(`Unknown section "${section}"; the config can include ${Object.keys(defaultConfig).join(", ")}.`);
+      continue;
+    }
+    if(typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${section} must be an object.`);
+      continue;
+    }
+
+    for(const [field, fieldValue] of Object.entries(value)) {
+      const path = `${section}.${field}`;
+      if(!Object.hasOwn(defaultConfig[section as ConfigSection], field)) {
+        errors.push(`${section} has unknown field "${field}".`);
+      } else if(section === "paths") {
+        if(typeof fieldValue !== "string" || fieldValue === "") errors.push(`${path} must be a non-empty string.`);
+      } else {
+        const { min, max, integer } = numberFields[section as keyof typeof numberFields][field];
+        const inRange = typeof fieldValue === "number" && fieldValue >= min && (max === undefined || fieldValue <= max);
+        if(!inRange || (integer && !Number.isInteger(fieldValue))) {
+          errors.push(`${path} must be ${integer ? "a whole number" : "a number"} ${max === undefined ? `of at least ${min}` : `from ${min} to ${max}`}.`);
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+// Fills in the defaults for anything the file leaves out
+function withDefaults(data: ConfigFile): Config {
+  return {
+    engine: { ...defaultConfig.engine, ...data.engine },
+    defaultDifficulty: { ...defaultConfig.defaultDifficulty, ...data.defaultDifficulty },
+    scoring: { ...defaultConfig.scoring, ...data.scoring },
+    charades: { ...defaultConfig.charades, ...data.charades },
+    deduction: { ...defaultConfig.deduction, ...data.deduction },
+    enforcement: { ...defaultConfig.enforcement, ...data.enforcement },
+    achievements: { ...defaultConfig.achievements, ...data.achievements },
+    intervals: { ...defaultConfig.intervals, ...data.intervals },
+    paths: { ...defaultConfig.paths, ...data.paths },
+    announcements: data.announcements ?? defaultConfig.announcements,
+    storage: data.storage ?? defaultConfig.storage
+  };
+}
+
+// Some problems only show up once the defaults are filled in, like a minimum that's now above the default maximum
+function validateConfig(config: Config): string[] {
+  const errors: string[] = [];
+  if(config.engine.minimumTimeBetweenChanges > config.engine.maximumTimeBetweenChanges) {
+    errors.push("engine.minimumTimeBetweenChanges can't be more than engine.maximumTimeBetweenChanges.");
+  }
+  if(config.defaultDifficulty.minFailRatio >= config.defaultDifficulty.maxFailRatio) {
+    errors.push("defaultDifficulty.minFailRatio must be less than defaultDifficulty.maxFailRatio.");
+  }
+  if(config.enforcement.baseCooldown > config.enforcement.maxCooldown) {
+    errors.push("enforcement.baseCooldown can't be more than enforcement.maxCooldown.");
+  }
+  return errors;
+}
+
+/**
+ * Reads and validates a config file. A missing file gives the default config.
+ * @param path
+ * @returns
+ * @throws If the file can't be read or is invalid.
+ */
+export function loadConfig(path: string): Config {
+  if(!fs.existsSync(path)) return withDefaults({});
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, "utf-8"));
+  } catch(error) {
+    throw new Error(`Couldn't read the config file ${path}: ${(error as Error).message}`);
+  }
+
+  const fileErrors = validateConfigFile(data);
+  const loaded = fileErrors.length === 0 ? withDefaults(data as ConfigFile) : undefined;
+  const errors = loaded === undefined ? fileErrors : validateConfig(loaded);
+  if(errors.length > 0) {
+    throw new Error(`The config file ${path} is invalid:\n${errors.map(error => `  - ${error}`).join("\n")}`);
+  }
+  return loaded!;
+}
+
+const configPath = process.env.CONFIG_FILE ?? "config.json";
+
+/**
+ * The current config. Its sections are updated in place when the file changes, so they can be held onto.
+ */
+export const config: Config = loadConfig(configPath);
+
+const configChangeListeners: ((config: Config) => void)[] = [];
+
+/**
+ * Registers a function to call whenever the config is reloaded.
+ * @param listener
+ */
+export function onConfigChange(listener: (config: Config) => void): void {
+  configChangeListeners.push(listener);
+}
+
+function reloadConfig(): void {
+  let loaded: Config;
+  try {
+    loaded = loadConfig(configPath);
+  } catch(error) {
+    console.error(`${(error as Error).message}\nKeeping the current config.`);
+    return;
+  }
+
+  if(JSON.stringify(loaded.paths) !== JSON.stringify(config.paths) || loaded.storage !== config.storage) {
+    console.log("\x1b[33m", "The paths or storage in the config have changed; restart the bot for them to take effect.", "\x1b[0m");
+  }
+  Object.assign(config.engine, loaded.engine);
+  Object.assign(config.defaultDifficulty, loaded.defaultDifficulty);
+  Object.assign(config.scoring, loaded.scoring);
+  Object.assign(config.charades, loaded.charades);
+  Object.assign(config.deduction, loaded.deduction);
+  Object.assign(config.enforcement, loaded.enforcement);
+  Object.assign(config.achievements, loaded.achievements);
+  Object.assign(config.intervals, loaded.intervals);
+  config.announcements = loaded.announcements;
+  console.log("\x1b[32m", `Reloaded the config from ${configPath}.`, "\x1b[0m");
+  configChangeListeners.forEach(listener => listener(config));
+}
+
+/**
+ * Reloads the config whenever its file changes. Should be called once when the app starts.
+ */
+export function watchConfig(): void {
+  // Polling also notices the file being replaced or created, which editors and deploys often do
+  fs.watchFile(configPath, { interval: 2000 }, (current, previous) => {
+    if(current.mtimeMs !== previous.mtimeMs) reloadConfig();
+  });
+}
@@ -0,0 +1,204 @@
+import * as http from "http";
+import { timingSafeEqual } from "crypto";
+import { getChannelSettings, getGameChannels } from "./channels";
+import { getRuleName, getRulesetStats } from "./rules";
+import { getRulesetHistory } from "./rulesetHistory";
+import { saveData, ScorePeriod } from "./saveData";
+
+// A small HTTP server with the game's live stats as JSON, and a page that shows them. Every request needs the shared
+// secret, either as a bearer token or in the `secret` query parameter so the page can be opened in a browser.
+
+/** The live state of a channel the game is running in. */
+type ChannelStats = {
+    channelID: string;
+    ruleset: { id: string, name: string }[];
+    difficulty: number;
+    messages: number;
+    /** The ratio of messages under the active ruleset that broke a rule. NaN (null in JSON) if there are none yet. */
+    failRatio: number;
+    minFailRatio: number;
+    maxFailRatio: number;
+    paused: boolean;
+};
+
+/** How often a rule has been broken while it was active, across every channel. */
+type RuleStats = {
+    id: string;
+    name: string;
+    checked: number;
+    violated: number;
+    /** The ratio of checked messages that broke the rule. NaN (null in JSON) if it hasn't been checked. */
+    violationRate: number;
+};
+
+const leaderboardSize = 25;
+const historySize = 200; // The most rulesets /api/history returns, so a long history doesn't make for a huge response
+
+function getChannelStats(): ChannelStats[] {
+    return getGameChannels().flatMap(channelID => {
+        const stats = getRulesetStats(channelID);
+        const settings = getChannelSettings(channelID);
+        if(stats === undefined || settings === undefined) return [];
+        return [{
+            channelID,
+            ruleset: stats.ruleset.map(id => ({ id, name: getRuleName(id) })),
+            difficulty: stats.difficulty,
+            messages: stats.messages,
+            failRatio: stats.failRatio,
+            minFailRatio: settings.minFailRatio,
+            maxFailRatio: settings.maxFailRatio,
+            paused: settings.paused
+        }];
+    });
+}
+
+function getLeaderboards(): { [period: string]: { playerID: string, score: number }[] } {
+    return {
+        allTime: saveData.getTopPlayers(ScorePeriod.AllTime, leaderboardSize),
+        pastWeek: saveData.getTopPlayers(ScorePeriod.PastWeek, leaderboardSize),
+        today: saveData.getTopPlayers(ScorePeriod.Today, leaderboardSize)
+    };
+}
+
+function getRuleStats(): RuleStats[] {
+    return Object.entries(saveData.getRuleStats().rules)
+        .map(([id, { checked, passed }]) => ({
+            id,
+            name: getRuleName(id),
+            checked,
+            violated: checked - passed,
+            violationRate: checked > 0 ? (checked - passed) / checked : NaN
+        }))
+        .sort((a, b) => b.checked - a.checked);
+}
+
+// Compares in constant time, so the secret can't be guessed a character at a time from how long requests take
+function isAuthorized(request: http.IncomingMessage, url: URL, secret: string): boolean {
+    const authorization = request.headers.authorization;
+    const given = authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : url.searchParams.get("secret");
+    if(given === null) return false;
+    const givenBuffer = Buffer.from(given);
+    const secretBuffer = Buffer.from(secret);
+    return givenBuffer.length === secretBuffer.length && timingSafeEqual(givenBuffer, secretBuffer);
+}
+
+function sendJSON(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+}
+
+async function handleRequest(request: http.IncomingMessage, response: http.ServerResponse, secret: string): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    if(request.method !== "GET") {
+        sendJSON(response, 405, { error: "Only GET requests are supported." });
+        return;
+    }
+    if(!isAuthorized(request, url, secret)) {
+        sendJSON(response, 401, { error: "A valid secret is required." });
+        return;
+    }
+
+    switch(url.pathname) {
+        case "/":
+            response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+            response.end(dashboardPage);
+            return;
+        case "/api/channels":
+            sendJSON(response, 200, getChannelStats());
+            return;
+        case "/api/leaderboards":
+            sendJSON(response, 200, getLeaderboards());
+            return;
+        case "/api/rules":
+            sendJSON(response, 200, getRuleStats());
+            return;
+        case "/api/history":
+            sendJSON(response, 200, (await getRulesetHistory(url.searchParams.get("channel") ?? undefined)).slice(-historySize));
+            return;
+        default:
+            sendJSON(response, 404, { error: "Not found." });
+    }
+}
+
+/**
+ * Starts the dashboard server.
+ * @param port
+ * @param host The address to listen on; only this machine can connect by default.
+ * @param secret The secret every request needs.
+ */
+export function startDashboard(port: number, host: string, secret: string): void {
+    const server = http.createServer((request, response) => {
+        handleRequest(request, response, secret).catch(error => {
+            console.error("Dashboard request failed:", error);
+            if(!response.headersSent) sendJSON(response, 500, { error: "Something went wrong." });
+        });
+    });
+    server.on("error", error => console.error("The dashboard server failed:", error));
+    server.listen(port, host, () => console.log("\x1b[32m", `Dashboard running at http://${host}:${port}/`, "\x1b[0m"));
+}
+
+// The page fetches the JSON endpoints with the secret it was opened with, and refreshes every 30 seconds
+const dashboardPage = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Chameleon dashboard</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2em; color: #1d1c1d; }
+  h1 { color: #035920; }
+  section { margin-bottom: 2em; }
+  table { border-collapse: collapse; }
+  th, td { text-align: left; padding: 0.25em 0.75em; border-bottom: 1px solid #ddd; vertical-align: top; }
+  .bar { position: relative; width: 200px; height: 1em; background: #eee; }
+  .range { position: absolute; height: 100%; background: #cde8d5; }
+  .marker { position: absolute; width: 3px; height: 100%; background: #035920; }
+  .muted { color: #777; }
+</style>
+</head>
+<body>
+<h1>Chameleon</h1>
+<section><h2>Channels</h2><div id="channels"></div></section>
+<section><h2>Leaderboards</h2><div id="leaderboards"></div></section>
+<section><h2>Rules</h2><div id="rules"></div></section>
+<section><h2>Ruleset timeline</h2><div id="history"></div></section>
+<script>
+  const secret = new URLSearchParams(location.search).get("secret") ?? "";
+  const get = path => fetch(path, { headers: { Authorization: "Bearer " + secret } }).then(response => response.json());
+  const escape = text => String(text).replace(/[&<>"]/g, c => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]);
+  const percent = ratio => ratio === null ? "-" : Math.round(ratio * 100) + "%";
+  const time = ms => new Date(ms).toLocaleString();
+  const table = (headers, rows) => rows.length === 0 ? '<p class="muted">Nothing yet.</p>'
+    : "<table><tr>" + headers.map(h => "<th>" + h + "</th>").join("") + "</tr>"
+      + rows.map(row => "<tr>" + row.map(cell => "<td>" + cell + "</td>").join("") + "</tr>").join("") + "</table>";
+
+  // Shows the live fail ratio as a marker over the range the engine tries to keep it in
+  const failRatioBar = channel => '<div class="bar"><div class="range" style="left:' + channel.minFailRatio * 100 + '%;width:'
+    + (channel.maxFailRatio - channel.minFailRatio) * 100 + '%"></div>'
+    + (channel.failRatio === null ? "" : '<div class="marker" style="left:' + channel.failRatio * 100 + '%"></div>') + "</div>";
+
+  async function refresh() {
+    const [channels, leaderboards, rules, history] = await Promise.all([get("/api/channels"), get("/api/leaderboards"), get("/api/rules"), get("/api/history")]);
+    document.getElementById("channels").innerHTML = table(["Channel", "Rules", "Difficulty", "Messages", "Fail ratio", "Target"], channels.map(channel => [
+      escape(channel.channelID) + (channel.paused ? ' <span class="muted">(paused)</span>' : ""),
+      channel.ruleset.map(rule => escape(rule.name)).join("<br>") || '<span class="muted">No rules</span>',
+      channel.difficulty.toFixed(1),
+      channel.messages,
+      percent(channel.failRatio),
+      failRatioBar(channel) + percent(channel.minFailRatio) + " to " + percent(channel.maxFailRatio)
+    ]));
+    document.getElementById("leaderboards").innerHTML = [["All time", "allTime"], ["Past week", "pastWeek"], ["Today", "today"]].map(([title, key]) =>
+      "<h3>" + title + "</h3>" + table(["#", "Player", "Score"], leaderboards[key].map((player, index) => [index + 1, escape(player.playerID), player.score]))
+    ).join("");
+    document.getElementById("rules").innerHTML = table(["Rule", "Checked", "Violated", "Violation rate"], rules.map(rule => [
+      escape(rule.name), rule.checked, rule.violated, percent(rule.violationRate)
+    ]));
+    document.getElementById("history").innerHTML = table(["Channel", "Started", "Ended", "Rules", "Difficulty", "Messages", "Fail ratio", "Ended because"], history.reverse().map(entry => [
+      escape(entry.channelID), time(entry.startedAt), entry.endedAt === undefined ? "now" : time(entry.endedAt),
+      entry.ruleset.map(escape).join("<br>"), entry.difficulty.toFixed(1), entry.messages, percent(entry.failRatio), escape(entry.endReason ?? "")
+    ]));
+  }
+  refresh();
+  setInterval(refresh, 30000);
+</script>
+</body>
+</html>`;
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { setClock } from "./clock";
+
+let getCooldownEnd: typeof import("./enforcement")["getCooldownEnd"];
+let startCooldown: typeof import("./enforcement")["startCooldown"];
+
+const minute = 1000 * 60;
+const day = minute * 60 * 24;
+
+before(async () => {
+  // Keep the real save data out of this, since cooldowns are stored with the players
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.SAVE_DATA_PATH = path.join(testDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(testDirectory, "saveData.db");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  ({ getCooldownEnd, startCooldown } = await import("./enforcement"));
+  await (await import("./saveData")).saveData.ready;
+});
+
+test("cooldowns double with each offense, up to a day", () => {
+  let time = Date.now();
+  setClock(() => time);
+  const cooldowns = Array.from({ length: 13 }, () => {
+    const cooldown = startCooldown("U-repeat-offender") - time;
+    time += minute;
+    return cooldown;
+  });
+  assert.deepEqual(cooldowns.slice(0, 4), [minute, 2 * minute, 4 * minute, 8 * minute]);
+  assert.equal(cooldowns[12], day);
+});
+
+test("players who stay out of trouble long enough start over", () => {
+  let time = Date.now();
+  setClock(() => time);
+  startCooldown("U-reformed");
+  time += minute * 10;
+  assert.equal(startCooldown("U-reformed") - time, 2 * minute);
+  time += day + minute;
+  assert.equal(startCooldown("U-reformed") - time, minute);
+});
+
+test("cooldowns end when their time is up", () => {
+  let time = Date.now();
+  setClock(() => time);
+  assert.equal(getCooldownEnd("U-waiting"), undefined);
+  const cooldownEnd = startCooldown("U-waiting");
+  assert.equal(getCooldownEnd("U-waiting"), cooldownEnd);
+  time = cooldownEnd;
+  assert.equal(getCooldownEnd("U-waiting"), undefined);
+});
@@ -0,0 +1,93 @@
+import { App } from "@slack/bolt";
+import { now } from "./clock";
+import { config } from "./config";
+import { saveData } from "./saveData";
+import { queueSlackCall } from "./slackQueue";
+
+export enum EnforcementLevel {
+    /** Violating messages only get a reaction. */
+    React,
+    /** Violating messages get a reaction, and the player is told privately what they did wrong. */
+    Warn,
+    /** Violating messages are deleted, and the player is told privately what they did wrong. */
+    Delete,
+    /** Like Delete, but repeat offenders also get cooldowns that grow longer with each violation, during which all their messages are deleted. */
+    Timeout
+};
+
+/** The names of every enforcement level. */
+export const enforcementLevelNames: string[] = Object.keys(EnforcementLevel).filter(key => isNaN(Number(key)));
+
+/**
+ * Finds an enforcement level by its name, ignoring case.
+ * @param name
+ * @returns The enforcement level, or undefined if there isn't one with that name.
+ */
+export function parseEnforcementLevel(name: string): EnforcementLevel | undefined {
+    const levelName = enforcementLevelNames.find(levelName => levelName.toLowerCase() === name.toLowerCase());
+    return levelName === undefined ? undefined : EnforcementLevel[levelName as keyof typeof EnforcementLevel];
+}
+
+/**
+ * Checks whether a level warns players privately about their violations.
+ * @param level
+ * @returns
+ */
+export function warnsPlayers(level: EnforcementLevel): boolean {
+    return level !== EnforcementLevel.React;
+}
+
+/**
+ * Checks whether a level deletes violating messages.
+ * @param level
+ * @returns
+ */
+export function deletesMessages(level: EnforcementLevel): boolean {
+    return level === EnforcementLevel.Delete || level === EnforcementLevel.Timeout;
+}
+
+/**
+ * Gets when a player's cooldown ends.
+ * @param playerID
+ * @returns The end of the cooldown in milliseconds since the Unix epoch, or undefined if the player isn't in one.
+ */
+export function getCooldownEnd(playerID: string): number | undefined {
+    const cooldownUntil = saveData.getPlayer(playerID).getCooldownUntil();
+    return cooldownUntil > now() ? cooldownUntil : undefined;
+}
+
+/**
+ * Records that a player violated a rule, and starts a cooldown that's longer the more often they have recently.
+ * @param playerID
+ * @returns When the cooldown ends, in milliseconds since the Unix epoch.
+ */
+export function startCooldown(playerID: string): number {
+    const player = saveData.getPlayer(playerID);
+    const time = now();
+    const offenses = time - player.getLastOffense() > config.enforcement.offenseMemory ? 1 : player.getOffenses() + 1;
+    const cooldownUntil = time + Math.min(config.enforcement.baseCooldown * 2 ** (offenses - 1), config.enforcement.maxCooldown);
+    player.recordOffense(offenses, time, cooldownUntil);
+    return cooldownUntil;
+}
+
+/**
+ * Deletes a player's message. This needs the user token of someone allowed to delete other people's messages, like a
+ * workspace admin, in the SLACK_USER_TOKEN environment variable.
+ * @param channelID
+ * @param ts
+ * @param app
+ * @returns Whether the message was deleted.
+ */
+export async function deleteMessage(channelID: string, ts: string, app: App): Promise<boolean> {
+    try {
+        await queueSlackCall(channelID, `delete message ${ts} in ${channelID}`, () => app.client.chat.delete({
+            channel: channelID,
+            ts,
+            token: process.env.SLACK_USER_TOKEN
+        }));
+        return true;
+    } catch(error) {
+        console.error(`Couldn't delete message ${ts} in ${channelID}:`, error);
+        return false;
+    }
+}
@@ -0,0 +1,116 @@
+import { App } from "@slack/bolt";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { setClock } from "./clock";
+
+let gamemodes: typeof import("./gamemodes");
+let rules: typeof import("./rules");
+let saveData: typeof import("./saveData")["saveData"];
+let ScorePeriod: typeof import("./saveData")["ScorePeriod"];
+
+before(async () => {
+  // Keep the real save data out of this, since scoring changes players' points
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.SAVE_DATA_PATH = path.join(testDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(testDirectory, "saveData.db");
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.env.RULESET_HISTORY_PATH = path.join(testDirectory, "rulesetHistory.log");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  gamemodes = await import("./gamemodes");
+  rules = await import("./rules");
+  ({ saveData, ScorePeriod } = await import("./saveData"));
+  await saveData.ready;
+});
+
+test("compliant messages earn points scaled by difficulty and streak", () => {
+  assert.equal(gamemodes.scoreRuleCompliance("U-scoring", "a perfectly fine message", 0, 4), 4);
+  assert.equal(saveData.getPlayer("U-scoring").getStreak(), 1);
+
+  // Each message in the streak adds 0.1 to the multiplier
+  const player = saveData.getPlayer("U-streak");
+  for(let i = 0; i < 5; i++) player.extendStreak();
+  assert.equal(gamemodes.scoreRuleCompliance("U-streak", "the sixth message in a row", 0, 4), 6);
+  assert.equal(player.score(ScorePeriod.AllTime), 6);
+});
+
+test("short, repeated and rapid messages don't earn points", () => {
+  let time = Date.now();
+  setClock(() => time);
+  assert.equal(gamemodes.scoreRuleCompliance("U-spam", "ok", 0, 5), 0);
+  assert.equal(gamemodes.scoreRuleCompliance("U-spam", "a message worth points", 0, 5), 5);
+  // Sent right after the last one, so it's within the cooldown
+  time += 1000;
+  assert.equal(gamemodes.scoreRuleCompliance("U-spam", "another message worth points", 0, 5), 0);
+  // Repeats only differ by case and spacing
+  time += 1000 * 60;
+  assert.equal(gamemodes.scoreRuleCompliance("U-spam", "A message  worth POINTS", 0, 5), 0);
+  time += 1000 * 60;
+  assert.equal(gamemodes.scoreRuleCompliance("U-spam", "a new message worth points", 0, 5), 6);
+});
+
+test("violations cost points for every rule broken and break the streak", () => {
+  const player = saveData.getPlayer("U-violator");
+  gamemodes.scoreRuleCompliance("U-violator", "a compliant message", 0, 2);
+  assert.equal(player.getStreak(), 1);
+  assert.equal(gamemodes.scoreRuleCompliance("U-violator", "a broken message", 3, 2), -6);
+  assert.equal(player.getStreak(), 0);
+  assert.equal(player.score(ScorePeriod.AllTime), 2 - 6);
+});
+
+test("editing a message into a violation takes its points and charges the penalty", () => {
+  const player = saveData.getPlayer("U-editor");
+  player.extendStreak();
+  player.addPoints(5);
+  assert.equal(gamemodes.rescoreRuleCompliance("U-editor", 5, 2), -4);
+  assert.equal(player.score(ScorePeriod.AllTime), -4);
+  assert.equal(player.getStreak(), 0);
+});
+
+test("fixing a violation by editing only refunds the penalty", () => {
+  const player = saveData.getPlayer("U-fixer");
+  player.addPoints(-4);
+  assert.equal(gamemodes.rescoreRuleCompliance("U-fixer", -4, 0), 0);
+  assert.equal(player.score(ScorePeriod.AllTime), 0);
+  // Editing a compliant message into another compliant one changes nothing
+  player.addPoints(5);
+  assert.equal(gamemodes.rescoreRuleCompliance("U-fixer", 5, 0), 5);
+  assert.equal(player.score(ScorePeriod.AllTime), 5);
+});
+
+test("deleting a message takes back its points but not its penalty", () => {
+  const player = saveData.getPlayer("U-deleter");
+  player.addPoints(5);
+  assert.equal(gamemodes.rescoreRuleCompliance("U-deleter", 5, undefined), 0);
+  assert.equal(player.score(ScorePeriod.AllTime), 0);
+  player.addPoints(-4);
+  assert.equal(gamemodes.rescoreRuleCompliance("U-deleter", -4, undefined), -4);
+  assert.equal(player.score(ScorePeriod.AllTime), -4);
+});
+
+test("secret rules from templates have to be guessed with their parameter, and guesses run out", async () => {
+  const app = { client: { chat: { postMessage: async () => ({ ok: true }) } } } as unknown as App;
+  const { config } = await import("./config");
+  config.announcements = "none";
+  rules.initializeRules("C-deduction", rules.defaultDifficultySettings, app);
+  gamemodes.startGame("C-deduction", gamemodes.GameMode.Deduction, app);
+  rules.setRuleset("C-deduction", new Set(["todays-word:house"]), "Testing Deduction.", app);
+  const player = saveData.getPlayer("U-detective");
+
+  assert.match(await gamemodes.guessHiddenRule("U-detective", "C-deduction", "today's word", app), /not a secret rule.*2 guesses left/);
+  assert.match(await gamemodes.guessHiddenRule("U-detective", "C-deduction", "no spaces", app), /1 guess left/);
+  assert.match(await gamemodes.guessHiddenRule("U-detective", "C-deduction", "todays-word:house", app), /Correct/);
+  assert.equal(player.score(ScorePeriod.AllTime), 20 - 2 * 5);
+
+  // A new ruleset gives everyone their guesses back
+  rules.setRuleset("C-deduction", new Set(["no-letter:z"]), "Testing Deduction.", app);
+  for(let i = 0; i < 3; i++) await gamemodes.guessHiddenRule("U-detective", "C-deduction", "no spaces", app);
+  assert.match(await gamemodes.guessHiddenRule("U-detective", "C-deduction", "no letter z", app), /used all 3 of your guesses/);
+  assert.deepEqual(rules.getHiddenRules("C-deduction"), ["no-letter:z"]);
+  rules.setRuleset("C-deduction", new Set(["no-letter:z"]), "Testing Deduction.", app);
+  assert.match(await gamemodes.guessHiddenRule("U-detective", "C-deduction", "No letter Z", app), /Correct/);
+});
@@ -1,226 +1,365 @@
-import * as fsPromises from "fs/promises";
-import exitHook from "async-exit-hook";
+import { App } from "@slack/bolt";
+import { Achievement, unlockAchievement } from "./achievements";
+import charadesWords from "./charadesWords.json";
+import { now } from "./clock";
+import { config } from "./config";
+import { getHiddenRules, getRuleName, onRulesetChange, revealRule, setHiddenRuleCount } from "./rules";
+import { getTemplateID } from "./ruleTemplates";
+import { saveData } from "./saveData";
+import { queueSlackCall } from "./slackQueue";
 
 export enum GameMode {
     /**
      * A game mode where every player is assigned a word or phrase to describe to the other players without saying the word or phrase itself.  
      * When a player guesses your word or phrase, both you and the player who guessed correctly are given points.
      */
-    Charades
+    Charades,
+    /**
+     * A game mode where one of the active rules is kept secret, though messages are still checked against it.  
+     * Players work out the secret rule from which messages break a rule, and guess it with a command: correct
+     * guesses earn points and reveal the rule, and wrong guesses cost points.
+     */
+    Deduction
 };
 
-// There's probably a better way to do this, but this works for now.
+/** The names of every game mode. */
+export const gameModeNames: string[] = Object.keys(GameMode).filter(key => isNaN(Number(key)));
 
-type SerializedPlayerData = {
-    scoreAllTime: number;
-    scoreDays: {
-        [day: string]: number
-    }
-};
-type SerializedSaveData = {
-    players: { [playerID: string]: SerializedPlayerData }
-};
+/**
+ * Finds a game mode by its name, ignoring case.
+ * @param name
+ * @returns The game mode, or undefined if there isn't one with that name.
+ */
+export function parseGameMode(name: string): GameMode | undefined {
+    const modeName = gameModeNames.find(modeName => modeName.toLowerCase() === name.toLowerCase());
+    return modeName === undefined ? undefined : GameMode[modeName as keyof typeof GameMode];
+}
 
-enum ScorePeriod {
-    AllTime,
-    Today,
-    PastWeek
-};
+/** The game mode running in each game channel. */
+const channelGameModes: Map<string, GameMode> = new Map();
 
 /**
- * A player's data, including their score.
+ * Starts a game mode in a channel, replacing any game that was already running there.
+ * @param channelID
+ * @param mode
+ * @param app
  */
-class PlayerData {
-    private scoreAllTime: number;
-    private scoreDays: {
-        /** The day, in days since the Unix epoch. */
-        [day: number]: number
+export function startGame(channelID: string, mode: GameMode, app: App) {
+    stopGame(channelID);
+    channelGameModes.set(channelID, mode);
+    setHiddenRuleCount(channelID, mode === GameMode.Deduction ? config.deduction.hiddenRules : 0, app);
+    console.log("\x1b[33m", `Game mode in ${channelID} set to ${GameMode[mode]}!`, "\x1b[0m");
+
+    if(config.announcements !== "all") return;
+
+    const gameModeDescriptions: { [mode in GameMode]: string } = {
+        [GameMode.Charades]: "Charades has started! Once you send a message here, I'll DM you a secret word or phrase. Describe it without saying it; when someone guesses it, you both get points.",
+        [GameMode.Deduction]: "Deduction has started! From the next ruleset on, one of the active rules will be kept secret. Work out what it is from which messages break a rule, then guess it with `/chameleon-guess <rule>`. A correct guess earns points and reveals the rule, but wrong guesses cost points, and everyone only gets a few guesses for each ruleset."
     };
+    queueSlackCall(channelID, `announce the game mode in ${channelID}`, () => app.client.chat.postMessage({
+        channel: channelID,
+        text: gameModeDescriptions[mode]
+    })).catch(error => console.error("Failed to announce the game mode:", error));
+}
 
-    /**
-     * Loads player data from a serialized format.
-     * @param data
-     */
-    public constructor(data: SerializedPlayerData | null = null) {
-        if(data === null) {
-            this.scoreAllTime = 0;
-            this.scoreDays = {};
-        } else {
-            this.scoreAllTime = data.scoreAllTime;
-            this.scoreDays = data.scoreDays;
-        }
-    }
+/**
+ * Stops the game running in a channel, if any.
+ * @param channelID
+ */
+export function stopGame(channelID: string) {
+    channelGameModes.delete(channelID);
+    charadesGames.delete(channelID);
+    deductionGuesses.delete(channelID);
+}
 
-    /**
-     * Gets the current day, in days since the Unix epoch.
-     * @returns
-     */
-    private today() {
-        return Math.floor(Date.now() / 1000 / 60 / 60 / 24);
+/**
+ * Handles a message sent to a game channel for the channel's game mode.
+ * @param playerID The ID of the player who sent the message.
+ * @param text The message's text.
+ * @param channel The channel the message was sent in.
+ * @param ts The message's timestamp, used to reply in its thread.
+ * @param app
+ */
+export async function handleGameMessage(playerID: string, text: string, channel: string, ts: string, app: App) {
+    const gameMode = channelGameModes.get(channel);
+    if(gameMode === undefined) return;
+
+    switch(gameMode) {
+        case GameMode.Charades:
+            await handleCharadesMessage(playerID, text, channel, ts, app);
+            break;
+        case GameMode.Deduction:
+            // Players only get feedback from the rule checks, and guess with a command
+            break;
+        default:
+            const _exhaustiveCheck: never = gameMode;
+            return _exhaustiveCheck;
     }
+}
 
-    /**
-     * Adds points to the player's score.
-     */
-    public addPoints(points: number) {
-        this.scoreAllTime += points;
-        const today = this.today();
-        this.scoreDays[today] = (this.scoreDays[today] ?? 0) + points;
+// Rule compliance scoring
+
+/** The last time each player earned compliance points, in milliseconds since the Unix epoch. */
+const lastScoredMessageTime: Map<string, number> = new Map();
+/** Each player's most recent messages, normalized, used to stop people from repeating the same message for points. */
+const recentPlayerMessages: Map<string, string[]> = new Map();
+
+/**
+ * Scores a message based on whether it followed the active rules.  
+ * Compliant messages earn points scaled by the ruleset's difficulty and the player's streak, unless they look like
+ * spam; messages that violate rules break the player's streak and cost points for every rule violated.
+ * @param playerID The ID of the player who sent the message.
+ * @param text The message's text.
+ * @param violationCount The number of rules the message violated.
+ * @param difficulty The difficulty of the active ruleset.
+ * @returns The number of points awarded, which is negative for violations.
+ */
+export function scoreRuleCompliance(playerID: string, text: string, violationCount: number, difficulty: number): number {
+    const player = saveData.getPlayer(playerID);
+
+    if(violationCount > 0) {
+        const penalty = violationCount * config.scoring.violationPenalty;
+        player.breakStreak();
+        player.addPoints(-penalty);
+        return -penalty;
     }
 
-    /**
-     * Gets the player's score for the specified period.
-     * @param period 
-     * @returns 
-     */
-    public score(period: ScorePeriod): number {
-        switch(period) {
-            case ScorePeriod.AllTime:
-                return this.scoreAllTime;
-            case ScorePeriod.Today:
-                return this.scoreDays[this.today()];
-            case ScorePeriod.PastWeek:
-                const today = this.today();
-                let score = 0;
-                for(let i = 0; i < 7; i++) {
-                    score += this.scoreDays[today - i] ?? 0;
-                }
-                return score;
-            default:
-                const _exhaustiveCheck: never = period;
-                return _exhaustiveCheck;
-        }
+    const time = now();
+    const normalized = text.toLowerCase().replace(/\s+/g, " ").trim();
+    const recentMessages = recentPlayerMessages.get(playerID) ?? [];
+    const isSpam = normalized.replace(/\s/g, "").length < config.scoring.minimumScoringLength
+        || recentMessages.includes(normalized)
+        || time - (lastScoredMessageTime.get(playerID) ?? 0) < config.scoring.scoringCooldown;
+
+    recentMessages.push(normalized);
+    recentPlayerMessages.set(playerID, recentMessages.slice(-config.scoring.recentMessagesTracked));
+    if(isSpam) return 0;
+
+    const multiplier = Math.min(1 + player.getStreak() * config.scoring.streakMultiplierStep, config.scoring.maxStreakMultiplier);
+    const points = Math.round(difficulty * config.scoring.compliancePointsPerStar * multiplier);
+    player.extendStreak();
+    player.addPoints(points);
+    lastScoredMessageTime.set(playerID, time);
+    return points;
+}
+
+/**
+ * Corrects the points a message earned after it was edited or deleted.  
+ * Edits that break the rules lose the message's points and break the player's streak like any other violation, but
+ * fixing a violation only refunds the penalty: edits can't be checked for spam, so they don't earn points of their own.
+ * Deleting a message takes back any points it earned, but not its penalty, so deleting isn't a way out of one.
+ * @param playerID The ID of the player who sent the message.
+ * @param previousPoints The points the message earned before, which are negative for violations.
+ * @param violationCount The number of rules the message now violates, or undefined if it was deleted.
+ * @returns The number of points the message is now worth.
+ */
+export function rescoreRuleCompliance(playerID: string, previousPoints: number, violationCount: number | undefined): number {
+    const player = saveData.getPlayer(playerID);
+
+    if(violationCount === undefined) {
+        if(previousPoints <= 0) return previousPoints;
+        player.addPoints(-previousPoints);
+        return 0;
     }
 
-    /**
-     * Serializes the player data to a format that can be saved to a file.
-     * @returns
-     */
-    public serialize(): SerializedPlayerData {
-        return {
-            scoreAllTime: this.scoreAllTime,
-            scoreDays: this.scoreDays
-        };
+    if(violationCount > 0) {
+        const penalty = violationCount * config.scoring.violationPenalty;
+        if(previousPoints >= 0) player.breakStreak();
+        player.addPoints(-penalty - previousPoints);
+        return -penalty;
     }
+
+    if(previousPoints >= 0) return previousPoints;
+    player.addPoints(-previousPoints);
+    return 0;
+}
+
+// Charades
+
+type CharadesGame = {
+    /** The word or phrase each active player is currently describing. */
+    assignments: Map<string, string>,
+    /** The last time each player sent a message, in milliseconds since the Unix epoch. */
+    lastPlayerActivity: Map<string, number>
 };
 
+/** The Charades game running in each channel. */
+const charadesGames: Map<string, CharadesGame> = new Map();
+
 /**
- * The save data for the game. Currently only includes player data.
+ * Splits text into lowercase words, ignoring punctuation.
+ * @param text
+ * @returns
  */
-class SaveData {
-    /** The player data. */
-    private players: {
-        [playerID: string]: PlayerData
-    };
+function splitWords(text: string): string[] {
+    return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
 
-    /**
-     * Creates a new SaveData object and loads the save data from the provided file if it exists.
-     * @param saveFile 
-     */
-    public constructor(saveFile: string) {
-        this.players = {};
-        this.loadFromFile(saveFile);
+/**
+ * Checks whether a phrase appears, word for word, in a list of words.
+ * @param words
+ * @param phrase
+ * @returns
+ */
+function containsPhrase(words: string[], phrase: string): boolean {
+    const phraseWords = splitWords(phrase);
+    if(phraseWords.length === 0) return false;
+    for(let i = 0; i + phraseWords.length <= words.length; i++) {
+        if(phraseWords.every((word, j) => words[i + j] === word)) return true;
+    }
+    return false;
+}
 
-        // Attatch a listener to process exit to save the data before the program closes
-        exitHook(async (callback) => {
-            await this.saveToFile(saveFile);
-            callback();
-        });
-        
-        // Automatically save the data every 5 minutes
-        setInterval(() => this.saveToFile(saveFile), 1000 * 60 * 5);
+/**
+ * Assigns a player a new random word that nobody else in the game is currently describing, and sends it to them by DM.
+ * @param game
+ * @param channelID
+ * @param playerID
+ * @param app
+ */
+async function assignCharadesWord(game: CharadesGame, channelID: string, playerID: string, app: App) {
+    const previousWord = game.assignments.get(playerID);
+    const takenWords = new Set(game.assignments.values());
+    const availableWords = charadesWords.filter(word => !takenWords.has(word) && word !== previousWord);
+    const word = availableWords[Math.floor(Math.random() * availableWords.length)] ?? charadesWords[0];
+    game.assignments.set(playerID, word);
+
+    console.log("\x1b[33m", `Assigned a new Charades word to ${playerID}.`, "\x1b[0m");
+
+    try {
+        await queueSlackCall(playerID, `send a Charades word to ${playerID}`, () => app.client.chat.postMessage({
+            channel: playerID,
+            text: `Your Charades word in <#${channelID}> is *${word}*. Describe it there without saying it!`
+        }));
+    } catch(error) {
+        console.error(`Failed to send a Charades word to ${playerID}:`, error);
     }
+}
 
-    /**
-     * Writes the game's save data to a file.
-     * @param path
-     */
-    private async saveToFile(path: string) {
-        console.log("\x1b[33m", "Saving game data...", "\x1b[0m");
-        const data: SerializedSaveData = {
-            players: Object.fromEntries(
-                Object.entries(this.players).map(([playerID, playerData]) => [playerID, playerData.serialize()])
-            )
-        };
-        await fsPromises.writeFile(path, JSON.stringify(data));
-        console.log("\x1b[32m", "Game data saved!", "\x1b[0m");
+/**
+ * Handles a message for the Charades game mode: flags players who say their own word, awards points for
+ * correct guesses, and hands out words to newly active players.
+ */
+async function handleCharadesMessage(playerID: string, text: string, channel: string, ts: string, app: App) {
+    let game = charadesGames.get(channel);
+    if(game === undefined) {
+        game = { assignments: new Map(), lastPlayerActivity: new Map() };
+        charadesGames.set(channel, game);
     }
 
-    /**
-     * Loads the game's save data from a file.
-     * @param path
-     * @returns
-     */
-    private async loadFromFile(path: string) {
-        // If the save data file doesn't exist, create it
-        try {
-            await fsPromises.access(path);
-        } catch {
-            const defaultSaveData: SerializedSaveData = { players: {} };
-            await fsPromises.writeFile(path, JSON.stringify(defaultSaveData));
-        }
-    
-        try {
-            const data: SerializedSaveData = JSON.parse(await fsPromises.readFile(path, "utf-8"));
-            this.players = Object.fromEntries(
-                Object.entries(data.players).map(([playerID, playerData]) => [playerID, new PlayerData(playerData)])
-            );
-            console.log("\x1b[32m", "Game data loaded!", "\x1b[0m");
-        } catch {
-            console.error("Failed to load save data. Creating new save data.");
-            // Back up the old save data if it exists
-            try {
-                await fsPromises.copyFile(path, `${path}.bak`);
-            } catch {
-                console.error("Failed to back up save data.");
-            }
-    
-            return {
-                players: {}
-            };
-        }
+    const now = Date.now();
+    for(const [otherPlayerID, lastActive] of game.lastPlayerActivity) {
+        if(now - lastActive < config.charades.inactivityTimeout) continue;
+        game.lastPlayerActivity.delete(otherPlayerID);
+        game.assignments.delete(otherPlayerID);
     }
+    game.lastPlayerActivity.set(playerID, now);
 
-    /**
-     * Gets the leaderboard for a specified period.
-     * @param period
-     * @param topPlayers 
-     * @returns 
-     */
-    public getLeaderboard(period: ScorePeriod, topPlayers: number = 10): string {
-        const sortedPlayers = Object.entries(this.players).sort((a, b) => b[1].score(period) - a[1].score(period));
-        const topPlayersData = sortedPlayers.slice(0, topPlayers);
-        if(topPlayersData.length === 0) {
-            return "No players found.";
-        }
-
-        const scorePeriodNames: { [period in ScorePeriod]: string } = {
-            [ScorePeriod.AllTime]: "all time",
-            [ScorePeriod.Today]: "today",
-            [ScorePeriod.PastWeek]: "the past week"
-        };
-        let leaderboard = `Top ${topPlayersData.length} players for ${scorePeriodNames[period]}:  \n`;
-        leaderboard += topPlayersData.map(([playerID, playerData], index) => `${index + 1}. <@${playerID}>: ${playerData.score(period)}`).join("  \n");
-        return leaderboard;
+    const words = splitWords(text);
+    const replies: string[] = [];
+
+    const ownWord = game.assignments.get(playerID);
+    if(ownWord !== undefined && containsPhrase(words, ownWord)) {
+        saveData.addPoints(playerID, -config.charades.ownWordPenalty);
+        replies.push(`:no_entry_sign: <@${playerID}> said their own word, *${ownWord}*! They lose ${config.charades.ownWordPenalty} points and get a new word.`);
+        await assignCharadesWord(game, channel, playerID, app);
     }
 
-    /**
-     * Adds points to a player's score.
-     */
-    public addPoints(playerID: string, points: number) {
-        if(this.players[playerID] === undefined) {
-            this.players[playerID] = new PlayerData();
-        }
-        this.players[playerID].addPoints(points);
+    for(const [describerID, word] of game.assignments) {
+        if(describerID === playerID || !containsPhrase(words, word)) continue;
+
+        saveData.addPoints(playerID, config.charades.guesserPoints);
+        saveData.addPoints(describerID, config.charades.describerPoints);
+        unlockAchievement(playerID, Achievement.CharadesGuess, channel, ts, app);
+        replies.push(`:tada: <@${playerID}> guessed <@${describerID}>'s word, *${word}*! They get ${config.charades.guesserPoints} and ${config.charades.describerPoints} points respectively.`);
+        await assignCharadesWord(game, channel, describerID, app);
+    }
+
+    if(!game.assignments.has(playerID)) {
+        await assignCharadesWord(game, channel, playerID, app);
+    }
+
+    if(replies.length === 0) return;
+    try {
+        await queueSlackCall(channel, `announce Charades results in ${channel}`, () => app.client.chat.postMessage({
+            channel,
+            text: replies.join("\n"),
+            thread_ts: ts
+        }));
+    } catch(error) {
+        console.error("Failed to announce Charades results:", error);
+    }
+}
+
+// Deduction
+
+/** How many guesses each player has made in each channel since its ruleset last changed. */
+const deductionGuesses: Map<string, Map<string, number>> = new Map();
+onRulesetChange(change => deductionGuesses.delete(change.channelID));
+
+// Rule names are compared without case or punctuation, so "no spaces" and "No-spaces" both match "No spaces"
+function normalizeRuleName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Checks whether a guess names a rule, by its name or its ID. Rules from templates also have to be guessed with their
+ * parameter, like the word in "Today's word", so knowing what kind of rule it is isn't enough.
+ * @param normalizedGuess
+ * @param ruleID
+ * @returns
+ */
+function guessMatchesRule(normalizedGuess: string, ruleID: string): boolean {
+    if(normalizeRuleName(ruleID) === normalizedGuess) return true;
+    if(normalizeRuleName(getRuleName(ruleID)) !== normalizedGuess) return false;
+    const templateID = getTemplateID(ruleID);
+    return templateID === undefined || normalizedGuess.includes(normalizeRuleName(ruleID.slice(templateID.length + 1)));
+}
+
+/**
+ * Handles a player's guess of a secret rule in the Deduction game mode. Each player only gets a few guesses until the
+ * ruleset changes, so guessing every rule in turn doesn't pay.
+ * @param playerID The ID of the player who guessed.
+ * @param channel The channel the guess was made in.
+ * @param guess The name or ID of the rule the player thinks is secret.
+ * @param app
+ * @returns A reply to show the player.
+ */
+export async function guessHiddenRule(playerID: string, channel: string, guess: string, app: App): Promise<string> {
+    if(channelGameModes.get(channel) !== GameMode.Deduction) {
+        return "There's no Deduction game running in this channel.";
+    }
+    const hiddenRules = getHiddenRules(channel);
+    if(hiddenRules.length === 0) {
+        return "There's no secret rule to guess right now. A new one will be picked when the ruleset changes.";
     }
-};
 
-// No DB needed for now... JSON is enough for this small project
-const saveDataPath = "saveData.json";
-let saveData: SaveData = new SaveData(saveDataPath);
-let gameMode: GameMode = GameMode.Charades;
+    const guesses = deductionGuesses.get(channel) ?? new Map<string, number>();
+    deductionGuesses.set(channel, guesses);
+    const guessesMade = guesses.get(playerID) ?? 0;
+    if(guessesMade >= config.deduction.guessesPerRuleset) {
+        return `You've used all ${config.deduction.guessesPerRuleset} of your guesses for this ruleset. You can guess again once the ruleset changes.`;
+    }
+    guesses.set(playerID, guessesMade + 1);
 
-export function startGame(mode: GameMode) {
-    gameMode = mode;
-    console.log("\x1b[33m", `Game mode set to ${GameMode[mode]}!`, "\x1b[0m");
+    const normalizedGuess = normalizeRuleName(guess);
+    const ruleID = hiddenRules.find(id => guessMatchesRule(normalizedGuess, id));
+    if(ruleID === undefined) {
+        saveData.addPoints(playerID, -config.deduction.wrongGuessPenalty);
+        const guessesLeft = config.deduction.guessesPerRuleset - guessesMade - 1;
+        return `That's not a secret rule. You lose ${config.deduction.wrongGuessPenalty} points, and have ${guessesLeft} ${guessesLeft === 1 ? "guess" : "guesses"} left for this ruleset.`;
+    }
+
+    revealRule(channel, ruleID, app);
+    saveData.addPoints(playerID, config.deduction.guessPoints);
+    console.log("\x1b[33m", `${playerID} guessed the secret rule ${ruleID} in ${channel}.`, "\x1b[0m");
+    try {
+        await queueSlackCall(channel, `announce the secret rule guessed in ${channel}`, () => app.client.chat.postMessage({
+            channel,
+            text: `:tada: <@${playerID}> worked out a secret rule: *${getRuleName(ruleID)}*! They get ${config.deduction.guessPoints} points.`
+        }));
+    } catch(error) {
+        console.error("Failed to announce a guessed secret rule:", error);
+    }
+    return `Correct! You get ${config.deduction.guessPoints} points.`;
 }
\ No newline at end of file
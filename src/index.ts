@@ -1,9 +1,25 @@
-import { App, LogLevel } from '@slack/bolt';
-import dotenv from 'dotenv';
-import { addToViolationHistory, evaluateChange, getRulesMessage, getViolations, initializeRules } from './rules';
-import { GameMode, startGame } from './gamemodes';
+// Loaded before anything else so modules can read the environment when they're imported
+import 'dotenv/config';
+import { App, LogLevel, types } from '@slack/bolt';
+import { addToViolationHistory, correctViolationHistory, evaluateChange, getActiveRulesetDifficulty, getHiddenRules, getRuleName, getRulesetStats, getRulesMessage, getViolations, isValidRuleset, onRulesetChange, ruleExists, setRuleset, Violation } from './rules';
+import { GameMode, gameModeNames, guessHiddenRule, handleGameMessage, parseGameMode, rescoreRuleCompliance, scoreRuleCompliance } from './gamemodes';
+import { saveData, ScorePeriod } from './saveData';
+import { parseMessage, renderMessage } from './messageParser';
+import { addChannel, ChannelSettings, defaultChannelSettings, getChannelSettings, getGameChannels, initializeChannels, isGameChannel, removeChannel, updateChannelSettings } from './channels';
+import { getRecentAdminActions, recordAdminAction } from './auditLog';
+import { registerVoteActions } from './voting';
+import { forgetMessage, getMessageRecord, recordMessage } from './messageRecords';
+import { backfillChannel, indexMessage, messageIndexReady, removeMessage } from './messageIndex';
+import { deleteMessage, deletesMessages, EnforcementLevel, enforcementLevelNames, getCooldownEnd, parseEnforcementLevel, startCooldown, warnsPlayers } from './enforcement';
+import { callSlack, queueSlackCall } from './slackQueue';
+import { getRulesetHistory, recordRulesetChange, rulesetHistoryToCSV } from './rulesetHistory';
+import { startDashboard } from './dashboard';
+import { config, onConfigChange, watchConfig } from './config';
+import { checkMessageAchievements, getAchievementSummary } from './achievements';
+import { assignTeam, createTeam, getPlayerTeam, getTeamLeaderboard, getTeamNames, getTeamRules, getTeamRulesMessage, isValidTeamName, removeTeam, setPlayerTeam, startTeamResults } from './teams';
 
-dotenv.config();
+// Comma-separated Slack user IDs of the people allowed to use /chameleon-admin
+const adminUserIDs = (process.env.ADMIN_USER_IDS ?? "").split(",").map(id => id.trim()).filter(id => id !== "");
 
 const app = new App({
   token: process.env.SLACK_BOT_TOKEN,
@@ -13,6 +29,9 @@ const app = new App({
   // clientSecret: process.env.SLACK_CLIENT_SECRET,
   socketMode: true,
   appToken: process.env.SLACK_APP_TOKEN,
+  // Rate limits are handled by the Slack call queue, which only holds back the channel that was limited, and nothing else
+  // is retried, since a post that seemed to fail could be sent twice
+  clientOptions: { rejectRateLimitedCalls: true, retryConfig: { retries: 0 } }
 });
 
 app.command('/chameleon-rules', async ({ command, ack, respond }) => {
@@ -20,38 +39,754 @@ app.command('/chameleon-rules', async ({ command, ack, respond }) => {
 
   await ack();
 
+  const teamRules = getTeamRulesMessage(command.channel_id);
   await respond({
     response_type: "in_channel",
-    text: getRulesMessage()
+    text: getRulesMessage(command.channel_id) + (teamRules === "" ? "" : `\n\n${teamRules}`)
   });
 });
 
-app.message(async ({ message, say }) => {
+app.command('/chameleon-leaderboard', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Leaderboard command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  const periods: { [name: string]: ScorePeriod } = {
+    today: ScorePeriod.Today,
+    week: ScorePeriod.PastWeek,
+    all: ScorePeriod.AllTime
+  };
+  let period = ScorePeriod.AllTime;
+  let count = 10;
+  let teams = false;
+  for(const arg of command.text.trim().toLowerCase().split(/\s+/).filter(arg => arg !== "")) {
+    if(Object.hasOwn(periods, arg)) {
+      period = periods[arg];
+    } else if(arg === "teams") {
+      teams = true;
+    } else if(/^\d+$/.test(arg)) {
+      count = Math.min(Math.max(parseInt(arg), 1), 50);
+    } else {
+      await respond({
+        response_type: "ephemeral",
+        text: "Usage: `/chameleon-leaderboard [teams] [today|week|all] [count]`"
+      });
+      return;
+    }
+  }
+
+  await respond({
+    response_type: "in_channel",
+    text: teams ? getTeamLeaderboard(period) : saveData.getLeaderboard(period, count)
+  });
+});
+
+app.command('/chameleon-score', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Score command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  // With should_escape enabled, mentions arrive as <@U123|name>
+  const mention = command.text.match(/<@([A-Z0-9]+)(?:\|[^>]*)?>/);
+  const playerID = mention?.[1] ?? command.user_id;
+
+  await respond({
+    response_type: "ephemeral",
+    text: `${saveData.getPlayerSummary(playerID)}\n\n${getAchievementSummary(playerID)}`
+  });
+});
+
+app.command('/chameleon-team', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Team command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  const reply = (text: string) => respond({ response_type: "ephemeral", text });
+  const [subcommand, team] = command.text.trim().toLowerCase().split(/\s+/);
+  const currentTeam = getPlayerTeam(command.user_id);
+
+  if(subcommand === "") {
+    const yourTeam = currentTeam === undefined ? "You aren't on a team yet." : `You're on team *${currentTeam}*.`;
+    await reply(`${yourTeam}\n\n${getTeamLeaderboard(ScorePeriod.AllTime)}`);
+    return;
+  }
+  if(subcommand !== "join" || team === undefined) {
+    await reply("Usage: `/chameleon-team [join <team>]`");
+    return;
+  }
+  if(!getTeamNames().includes(team)) {
+    await reply(`There's no team called ${team}. Teams: ${getTeamNames().join(", ") || "none yet"}`);
+    return;
+  }
+  // Players can only choose once, so they can't hop to whichever team is winning; admins can still move them
+  if(currentTeam !== undefined) {
+    await reply(`You're already on team *${currentTeam}*. Ask an admin if you need to switch.`);
+    return;
+  }
+  setPlayerTeam(command.user_id, team);
+  await reply(`You joined team *${team}*! Your points now count toward its score.`);
+});
+
+app.command('/chameleon-history', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `History command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  const count = command.text.trim() === "" ? 5 : parseInt(command.text.trim());
+  if(isNaN(count) || count < 1) {
+    await respond({
+      response_type: "ephemeral",
+      text: "Usage: `/chameleon-history [count]`"
+    });
+    return;
+  }
+
+  const entries = (await getRulesetHistory(command.channel_id)).slice(-Math.min(count, 20)).reverse();
+  const hiddenRules = getHiddenRules(command.channel_id);
+  const lines = entries.map(entry => {
+    const end = entry.endedAt === undefined ? "now" : slackDate(entry.endedAt);
+    // The active ruleset's secret rules stay secret here too
+    const ruleName = (id: string) => entry.endedAt === undefined && hiddenRules.includes(id) ? "a secret rule" : getRuleName(id);
+    const rules = entry.ruleset.map(ruleName).join(", ") || "No rules";
+    const failRatio = isNaN(entry.failRatio) ? "" : `, ${Math.round(entry.failRatio * 100)}% broke a rule`;
+    const ended = entry.endReason === undefined ? "" : `\n        _${entry.endReason}_`;
+    return `• ${slackDate(entry.startedAt)} to ${end}: ${rules} (${Math.round(entry.difficulty)} :tw_star:), ${entry.messages} messages${failRatio}${ended}`;
+  });
+  await respond({
+    response_type: "ephemeral",
+    text: lines.length === 0 ? "No rulesets have been recorded in this channel." : `Recent rulesets in <#${command.channel_id}>, newest first:\n${lines.join("\n")}`
+  });
+});
+
+app.command('/chameleon-guess', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Guess command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  if(command.text.trim() === "") {
+    await respond({
+      response_type: "ephemeral",
+      text: "Usage: `/chameleon-guess <rule name>`"
+    });
+    return;
+  }
+
+  await respond({
+    response_type: "ephemeral",
+    text: await guessHiddenRule(command.user_id, command.channel_id, command.text.trim(), app)
+  });
+});
+
+app.command('/chameleon-config', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Config command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  await respond({
+    response_type: "ephemeral",
+    text: `The current config, which is reloaded whenever its file changes (durations are in milliseconds):\n\`\`\`${JSON.stringify(config, null, 2)}\`\`\``
+  });
+});
+
+app.command('/chameleon-channel', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Channel command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  const usage = "Usage: `/chameleon-channel add [difficulty] | remove | list | settings | difficulty <stars> | failratio <min> <max> | mode <game mode> | voting <on|off>`";
+  const [subcommand, ...args] = command.text.trim().split(/\s+/);
+  const channelID = command.channel_id;
+  const reply = (text: string) => respond({ response_type: "ephemeral", text });
+  const audit = (action: string) => recordAdminAction(command.user_id, channelID, action);
+
+  // Anyone can look at the channels and settings, but only admins can change them
+  const readOnly = ["list", "settings"].includes(subcommand?.toLowerCase());
+  if(!readOnly && subcommand !== "" && !adminUserIDs.includes(command.user_id)) {
+    await audit(`was denied running "/chameleon-channel ${command.text}"`);
+    await reply("Only admins can change the game's channels and their settings.");
+    return;
+  }
+
+  // Changes the channel's settings, recording the change in the audit log if the game is running here
+  const changeSettings = async (settings: Partial<ChannelSettings>, action: string, confirmation: string) => {
+    if(!updateChannelSettings(channelID, settings, app)) {
+      await reply("The game isn't running in this channel.");
+      return;
+    }
+    await audit(action);
+    await reply(confirmation);
+  };
+
+  switch(subcommand?.toLowerCase()) {
+    case "add": {
+      const roughDifficulty = args[0] === undefined ? defaultChannelSettings.roughDifficulty : parseFloat(args[0]);
+      if(isNaN(roughDifficulty) || roughDifficulty <= 0) {
+        await reply(usage);
+        return;
+      }
+      if(!addChannel(channelID, { ...defaultChannelSettings, roughDifficulty }, app)) {
+        await reply("The game is already running in this channel.");
+        return;
+      }
+      await audit(`started the game with a rough difficulty of ${roughDifficulty}`);
+      await reply(`The game is now running in <#${channelID}> with a rough difficulty of ${roughDifficulty}.`);
+      await backfillChannel(channelID, app);
+      return;
+    }
+    case "remove":
+      if(!removeChannel(channelID)) {
+        await reply("The game isn't running in this channel.");
+        return;
+      }
+      await audit("stopped the game");
+      await reply(`The game has stopped in <#${channelID}>.`);
+      return;
+    case "list": {
+      const channels = getGameChannels();
+      await reply(channels.length === 0 ? "The game isn't running in any channels." : `The game is running in ${channels.map(id => `<#${id}>`).join(", ")}.`);
+      return;
+    }
+    case "settings": {
+      const settings = getChannelSettings(channelID);
+      if(settings === undefined) {
+        await reply("The game isn't running in this channel.");
+        return;
+      }
+      await reply(`Settings for <#${channelID}>:\nRough difficulty: ${settings.roughDifficulty}\nFail ratio range: ${settings.minFailRatio} to ${settings.maxFailRatio}\nGame mode: ${GameMode[settings.gameMode]}\nRules paused: ${settings.paused ? "yes" : "no"}\nVoting on rule changes: ${settings.voting ? "on" : "off"}\nEnforcement: ${EnforcementLevel[settings.enforcement]}\nExempt players: ${settings.exemptUsers.map(id => `<@${id}>`).join(", ") || "none"}`);
+      return;
+    }
+    case "difficulty": {
+      const roughDifficulty = parseFloat(args[0]);
+      if(isNaN(roughDifficulty) || roughDifficulty <= 0) {
+        await reply(usage);
+        return;
+      }
+      await changeSettings({ roughDifficulty }, `set the rough difficulty to ${roughDifficulty}`, `Rough difficulty set to ${roughDifficulty}.`);
+      return;
+    }
+    case "failratio": {
+      const minFailRatio = parseFloat(args[0]);
+      const maxFailRatio = parseFloat(args[1]);
+      if(isNaN(minFailRatio) || isNaN(maxFailRatio) || minFailRatio < 0 || maxFailRatio > 1 || minFailRatio >= maxFailRatio) {
+        await reply(usage);
+        return;
+      }
+      await changeSettings({ minFailRatio, maxFailRatio }, `set the fail ratio range to ${minFailRatio} to ${maxFailRatio}`, `Fail ratio range set to ${minFailRatio} to ${maxFailRatio}.`);
+      return;
+    }
+    case "mode": {
+      const gameMode = parseGameMode(args[0] ?? "");
+      if(gameMode === undefined) {
+        await reply(`Unknown game mode. Available game modes: ${gameModeNames.join(", ")}`);
+        return;
+      }
+      await changeSettings({ gameMode }, `set the game mode to ${GameMode[gameMode]}`, `Game mode set to ${GameMode[gameMode]}.`);
+      return;
+    }
+    case "voting": {
+      const option = args[0]?.toLowerCase();
+      if(option !== "on" && option !== "off") {
+        await reply(usage);
+        return;
+      }
+      const voting = option === "on";
+      await changeSettings({ voting }, `turned voting ${option}`, `Players ${voting ? "will now vote" : "will no longer vote"} on rule changes.`);
+      return;
+    }
+    default:
+      await reply(usage);
+  }
+});
+
+app.command('/chameleon-admin', async ({ command, ack, respond }) => {
+  console.log('\x1b[33m', `Admin command recieved from ${command.user_name}!`, '\x1b[0m');
+
+  await ack();
+
+  const channelID = command.channel_id;
+  const reply = (text: string) => respond({ response_type: "ephemeral", text });
+  if(!adminUserIDs.includes(command.user_id)) {
+    await recordAdminAction(command.user_id, channelID, `was denied running "${command.text}"`);
+    await reply("Only admins can use this command.");
+    return;
+  }
+
+  const usage = "Usage: `/chameleon-admin ruleset <rule> [rule...] | add <rule> | remove <rule> | evaluate | pause | resume | difficulty <stars> | mode <game mode> | enforcement <level> | exempt <@user> | unexempt <@user> | score <@user> <points|reset> | team <add|remove> <team> | team move <@user> <team> | team <rule|unrule> <team> <rule> | log [count] | export <csv|json>`";
+  const [subcommand, ...args] = command.text.trim().split(/\s+/);
+  const notRunning = "The game isn't running in this channel.";
+  const audit = (action: string) => recordAdminAction(command.user_id, channelID, action);
+
+  // Forces a ruleset, as long as its rules exist and can be active together
+  const forceRuleset = async (ruleset: Set<string>, action: string) => {
+    const unknownRules = Array.from(ruleset).filter(id => !ruleExists(id));
+    if(unknownRules.length > 0) {
+      await reply(`Unknown rules: ${unknownRules.join(", ")}`);
+      return;
+    }
+    if(!isValidRuleset(ruleset)) {
+      await reply("Those rules can't be active together.");
+      return;
+    }
+    if(!setRuleset(channelID, ruleset, "The ruleset has been changed by an admin.", app)) {
+      await reply(notRunning);
+      return;
+    }
+    await audit(action);
+    await reply(`The ruleset is now: ${Array.from(ruleset).join(", ") || "no rules"}.`);
+  };
+
+  switch(subcommand?.toLowerCase()) {
+    case "ruleset": {
+      await forceRuleset(new Set(args), `set the ruleset to ${args.join(", ") || "no rules"}`);
+      return;
+    }
+    case "add":
+    case "remove": {
+      const stats = getRulesetStats(channelID);
+      if(args.length !== 1) {
+        await reply(usage);
+        return;
+      }
+      if(stats === undefined) {
+        await reply(notRunning);
+        return;
+      }
+      const ruleset = new Set(stats.ruleset);
+      if(subcommand.toLowerCase() === "add") ruleset.add(args[0]);
+      else if(!ruleset.delete(args[0])) {
+        await reply(`${args[0]} isn't active.`);
+        return;
+      }
+      await forceRuleset(ruleset, `${subcommand.toLowerCase() === "add" ? "added" : "removed"} the rule ${args[0]}`);
+      return;
+    }
+    case "evaluate": {
+      const before = getRulesetStats(channelID);
+      if(before === undefined) {
+        await reply(notRunning);
+        return;
+      }
+      evaluateChange(channelID, app, true);
+      await audit("re-evaluated the ruleset");
+      await reply(`The ruleset has been re-evaluated after ${before.messages} messages. It is now: ${getRulesetStats(channelID)!.ruleset.join(", ") || "no rules"}.`);
+      return;
+    }
+    case "pause":
+    case "resume": {
+      const paused = subcommand.toLowerCase() === "pause";
+      if(!updateChannelSettings(channelID, { paused }, app)) {
+        await reply(notRunning);
+        return;
+      }
+      await audit(paused ? "paused the rules" : "resumed the rules");
+      await reply(paused ? "The rules are no longer being enforced in this channel." : "The rules are being enforced again in this channel.");
+      return;
+    }
+    case "difficulty": {
+      const roughDifficulty = parseFloat(args[0]);
+      if(isNaN(roughDifficulty) || roughDifficulty <= 0) {
+        await reply(usage);
+        return;
+      }
+      if(!updateChannelSettings(channelID, { roughDifficulty }, app)) {
+        await reply(notRunning);
+        return;
+      }
+      await audit(`set the rough difficulty to ${roughDifficulty}`);
+      await reply(`Rough difficulty set to ${roughDifficulty}.`);
+      return;
+    }
+    case "mode": {
+      const gameMode = parseGameMode(args[0] ?? "");
+      if(gameMode === undefined) {
+        await reply(`Unknown game mode. Available game modes: ${gameModeNames.join(", ")}`);
+        return;
+      }
+      if(!updateChannelSettings(channelID, { gameMode }, app)) {
+        await reply(notRunning);
+        return;
+      }
+      await audit(`switched the game mode to ${GameMode[gameMode]}`);
+      await reply(`Game mode set to ${GameMode[gameMode]}.`);
+      return;
+    }
+    case "enforcement": {
+      const enforcement = parseEnforcementLevel(args[0] ?? "");
+      if(enforcement === undefined) {
+        await reply(`Unknown enforcement level. Available levels: ${enforcementLevelNames.join(", ")}`);
+        return;
+      }
+      if(!updateChannelSettings(channelID, { enforcement }, app)) {
+        await reply(notRunning);
+        return;
+      }
+      await audit(`set the enforcement level to ${EnforcementLevel[enforcement]}`);
+      const tokenWarning = deletesMessages(enforcement) && !process.env.SLACK_USER_TOKEN ? " Messages can't be deleted without `SLACK_USER_TOKEN`, though." : "";
+      await reply(`Enforcement level set to ${EnforcementLevel[enforcement]}.${tokenWarning}`);
+      return;
+    }
+    case "exempt":
+    case "unexempt": {
+      const playerID = args[0]?.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1];
+      const settings = getChannelSettings(channelID);
+      if(playerID === undefined) {
+        await reply(usage);
+        return;
+      }
+      if(settings === undefined) {
+        await reply(notRunning);
+        return;
+      }
+      const exempt = subcommand.toLowerCase() === "exempt";
+      const exemptUsers = settings.exemptUsers.filter(id => id !== playerID);
+      if(exempt) exemptUsers.push(playerID);
+      updateChannelSettings(channelID, { exemptUsers }, app);
+      await audit(`${exempt ? "exempted" : "stopped exempting"} <@${playerID}> from the rules`);
+      await reply(exempt ? `The rules no longer apply to <@${playerID}> in this channel.` : `The rules apply to <@${playerID}> again in this channel.`);
+      return;
+    }
+    case "score": {
+      // With should_escape enabled, mentions arrive as <@U123|name>
+      const playerID = args[0]?.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1];
+      const change = args[1]?.toLowerCase();
+      if(playerID === undefined || change === undefined || (change !== "reset" && !/^[+-]?\d+$/.test(change))) {
+        await reply(usage);
+        return;
+      }
+      if(change === "reset") {
+        if(!saveData.resetPlayer(playerID)) {
+          await reply(`<@${playerID}> doesn't have a score to reset.`);
+          return;
+        }
+        await audit(`reset the score of <@${playerID}>`);
+        await reply(`The score of <@${playerID}> has been reset.`);
+        return;
+      }
+      const points = parseInt(change);
+      saveData.addPoints(playerID, points);
+      await audit(`gave ${points} points to <@${playerID}>`);
+      await reply(`Gave ${points} points to <@${playerID}>. Their all-time score is now ${saveData.getPlayer(playerID).score(ScorePeriod.AllTime)}.`);
+      return;
+    }
+    case "team": {
+      // Team names are lowercase, but mentions have to keep their case
+      const action = args[0]?.toLowerCase();
+      switch(action) {
+        case "add": {
+          const team = args[1]?.toLowerCase();
+          if(team === undefined || !isValidTeamName(team)) {
+            await reply("Team names can only have lowercase letters, digits and dashes, and can be up to 20 characters long.");
+            return;
+          }
+          if(!createTeam(team)) {
+            await reply(`There's already a team called ${team}.`);
+            return;
+          }
+          await audit(`created the team ${team}`);
+          await reply(`Created the team *${team}*. Players can join it with \`/chameleon-team join ${team}\`.`);
+          return;
+        }
+        case "remove": {
+          const team = args[1]?.toLowerCase();
+          if(team === undefined) {
+            await reply(usage);
+            return;
+          }
+          if(!removeTeam(team, app)) {
+            await reply(`There's no team called ${team}.`);
+            return;
+          }
+          await audit(`removed the team ${team}`);
+          await reply(`Removed the team *${team}*. Its players aren't on a team anymore.`);
+          return;
+        }
+        case "move": {
+          const playerID = args[1]?.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/)?.[1];
+          const team = args[2]?.toLowerCase();
+          if(playerID === undefined || team === undefined) {
+            await reply(usage);
+            return;
+          }
+          if(!getTeamNames().includes(team)) {
+            await reply(`There's no team called ${team}.`);
+            return;
+          }
+          setPlayerTeam(playerID, team);
+          await audit(`moved <@${playerID}> to the team ${team}`);
+          await reply(`Moved <@${playerID}> to team *${team}*.`);
+          return;
+        }
+        case "rule":
+        case "unrule": {
+          const team = args[1]?.toLowerCase();
+          const ruleID = args[2];
+          const settings = getChannelSettings(channelID);
+          if(team === undefined || ruleID === undefined) {
+            await reply(usage);
+            return;
+          }
+          if(settings === undefined) {
+            await reply(notRunning);
+            return;
+          }
+          if(!getTeamNames().includes(team)) {
+            await reply(`There's no team called ${team}.`);
+            return;
+          }
+          const currentRules = settings.teamRules[team] ?? [];
+          if(action === "unrule" && !currentRules.includes(ruleID)) {
+            await reply(`${ruleID} isn't one of team ${team}'s rules.`);
+            return;
+          }
+          const teamRules = currentRules.filter(id => id !== ruleID);
+          if(action === "rule") {
+            if(!ruleExists(ruleID)) {
+              await reply(`Unknown rule: ${ruleID}`);
+              return;
+            }
+            if(!isValidRuleset(new Set([...teamRules, ruleID]))) {
+              await reply(`${ruleID} can't be active together with team ${team}'s other rules.`);
+              return;
+            }
+            teamRules.push(ruleID);
+          }
+          updateChannelSettings(channelID, { teamRules: { ...settings.teamRules, [team]: teamRules } }, app);
+          await audit(`${action === "rule" ? "added" : "removed"} the rule ${ruleID} ${action === "rule" ? "to" : "from"} team ${team}`);
+          await reply(`Team ${team}'s rules in this channel are now: ${teamRules.join(", ") || "none"}.`);
+          return;
+        }
+        default:
+          await reply(usage);
+          return;
+      }
+    }
+    case "log": {
+      const count = args[0] === undefined ? 10 : parseInt(args[0]);
+      if(isNaN(count) || count < 1) {
+        await reply(usage);
+        return;
+      }
+      const entries = await getRecentAdminActions(Math.min(count, 50));
+      await reply(entries.length === 0 ? "No admin actions have been recorded." : entries.map(entry =>
+        `${new Date(entry.time).toISOString().slice(0, 16).replace("T", " ")} <@${entry.userID}> in <#${entry.channelID}>: ${entry.action}`
+      ).join("\n"));
+      return;
+    }
+    case "export": {
+      const format = args[0]?.toLowerCase();
+      if(format !== "csv" && format !== "json") {
+        await reply(usage);
+        return;
+      }
+      // Every channel's history is exported, and sent privately since it can be long
+      const entries = await getRulesetHistory();
+      const content = format === "csv" ? rulesetHistoryToCSV(entries) : JSON.stringify(entries, null, 4);
+      const dm = await callSlack(`open a DM with ${command.user_id}`, () => app.client.conversations.open({ users: command.user_id }));
+      await queueSlackCall(dm.channel!.id!, `send the ruleset history to ${command.user_id}`, () => app.client.files.uploadV2({
+        channel_id: dm.channel!.id!,
+        filename: `ruleset-history.${format}`,
+        title: "Ruleset history",
+        content
+      }));
+      await audit(`exported the ruleset history as ${format.toUpperCase()}`);
+      await reply(`Sent you the history of ${entries.length} rulesets.`);
+      return;
+    }
+    default:
+      await reply(usage);
+  }
+});
+
+registerVoteActions(app);
+onRulesetChange(change => recordRulesetChange(change));
+
+// Formats a time for Slack to show in the reader's own time zone
+function slackTime(time: number): string {
+  return `<!date^${Math.floor(time / 1000)}^{time}|${new Date(time).toISOString().slice(11, 16)} UTC>`;
+}
+
+// Like slackTime, but with the date too
+function slackDate(time: number): string {
+  return `<!date^${Math.floor(time / 1000)}^{date_short} {time}|${new Date(time).toISOString().slice(0, 16).replace("T", " ")} UTC>`;
+}
+
+// Explains privately to the player which rules their message broke, what in it broke them, and what happened because of it
+async function sendViolationReport(channelID: string, userID: string, violations: Violation[], options: { threadTS?: string, edited?: boolean, consequences?: string[] } = {}) {
+  // Secret rules would give themselves away by explaining what broke them
+  const hiddenRules = getHiddenRules(channelID);
+  const lines = violations.flatMap(({ rule, problems }) => hiddenRules.includes(rule.id) ? [":x: *A secret rule*: work out which one!"] : [
+    `:x: *${rule.name}*: ${rule.description}`,
+    ...problems.map(problem => `        • ${problem}`)
+  ]);
+  const ruleCount = violations.length === 1 ? "a rule" : `${violations.length} rules`;
+  const consequences = options.consequences?.length ? `\n\n${options.consequences.join(" ")}` : "";
+  await queueSlackCall(channelID, `tell ${userID} about their violations`, () => app.client.chat.postEphemeral({
+    channel: channelID,
+    user: userID,
+    thread_ts: options.threadTS,
+    text: `Your ${options.edited ? "edited " : ""}message breaks ${ruleCount}:\n${lines.join("\n")}${consequences}`
+  }));
+}
+
+// Deletes a violating message and starts a cooldown if the channel's enforcement level calls for it
+async function punishViolation(channelID: string, userID: string, ts: string, level: EnforcementLevel): Promise<{ deleted: boolean, consequences: string[] }> {
+  const consequences: string[] = [];
+  const deleted = deletesMessages(level) && await deleteMessage(channelID, ts, app);
+  if(deleted) consequences.push("It has been deleted.");
+  if(level === EnforcementLevel.Timeout) {
+    const cooldownEnd = startCooldown(userID);
+    consequences.push(`Any messages you send here before ${slackTime(cooldownEnd)} will be deleted too.`);
+  }
+  return { deleted, consequences };
+}
+
+function reactionFor(violations: { length: number }): string {
+  return violations.length > 0 ? "x" : "tw_white_check_mark";
+}
+
+// Checks an edited message again against the rules that were active when it was sent, and corrects everything it affected
+async function recheckEditedMessage(event: types.MessageChangedEvent) {
+  const edited = event.message;
+  if(edited.subtype !== undefined && edited.subtype !== "thread_broadcast") return;
+  const record = getMessageRecord(event.channel, edited.ts);
+  if(record === undefined) return;
+  // Replies in a message's thread also count as changes to it, without changing its text
+  const previousText = "text" in event.previous_message ? event.previous_message.text : undefined;
+  if(edited.text === previousText) return;
+
+  console.log('\x1b[33m', `Message from ${record.userID} edited: ${edited.text}`, '\x1b[0m');
+  const settings = getChannelSettings(event.channel)!;
+
+  // The message shouldn't count as a copy of its own earlier version
+  removeMessage(event.channel, record.ts);
+  const violations = await getViolations(event.channel, edited.text || "", app, record.ruleset);
+  console.log('\x1b[34m', `Violations after the edit: ${violations.map(violation => violation.rule.name).join(", ")}`, '\x1b[0m');
+
+  correctViolationHistory(event.channel, record.ts, violations.map(violation => violation.rule));
+  const points = rescoreRuleCompliance(record.userID, record.points, violations.length);
+  console.log('\x1b[34m', `Points for ${record.userID}'s message changed from ${record.points} to ${points}`, '\x1b[0m');
+
+  // Only edits that break the rules for the first time are punished, so fixing one violation isn't punished twice
+  const punishment = violations.length > 0 && record.violations.length === 0
+    ? await punishViolation(event.channel, record.userID, record.ts, settings.enforcement)
+    : { deleted: false, consequences: [] };
+  if(violations.length > 0 && warnsPlayers(settings.enforcement)) {
+    await sendViolationReport(event.channel, record.userID, violations, { threadTS: edited.thread_ts, edited: true, consequences: punishment.consequences });
+  }
+  if(punishment.deleted) {
+    // The deletion has already been accounted for, so the event it causes should be ignored
+    forgetMessage(event.channel, record.ts);
+    return;
+  }
+  indexMessage(event.channel, record.ts, edited.text || "");
+
+  if(reactionFor(violations) !== reactionFor(record.violations)) {
+    await queueSlackCall(event.channel, `remove the reaction from ${record.ts}`, () => app.client.reactions.remove({ name: reactionFor(record.violations), channel: event.channel, timestamp: record.ts }));
+    await queueSlackCall(event.channel, `react to ${record.ts}`, () => app.client.reactions.add({ name: reactionFor(violations), channel: event.channel, timestamp: record.ts }));
+  }
+
+  recordMessage({ ...record, violations: violations.map(violation => violation.rule.id), points });
+}
+
+// Undoes a deleted message's effect on the violation history, along with any points it earned
+function forgetDeletedMessage(event: types.MessageDeletedEvent) {
+  removeMessage(event.channel, event.deleted_ts);
+  const record = getMessageRecord(event.channel, event.deleted_ts);
+  if(record === undefined) return;
+
+  console.log('\x1b[33m', `Message from ${record.userID} deleted`, '\x1b[0m');
+
+  forgetMessage(event.channel, record.ts);
+  correctViolationHistory(event.channel, record.ts, undefined);
+  rescoreRuleCompliance(record.userID, record.points, undefined);
+}
+
+app.message(async ({ message }) => {
+  if(message.subtype === "message_changed" || message.subtype === "message_deleted") {
+    if(!isGameChannel(message.channel)) return;
+    if(message.subtype === "message_changed") await recheckEditedMessage(message);
+    else forgetDeletedMessage(message);
+    return;
+  }
   if(message.subtype !== undefined && message.subtype !== "thread_broadcast") return;
-  if(message.channel !== process.env.CHANNEL_ID) return;
+  if(!isGameChannel(message.channel)) return;
 
   console.log('\x1b[33m', `Message recieved from ${message.user}: ${message.text}`, '\x1b[0m');
+
+  // While an admin has paused the rules, or for players the rules don't apply to, only the game mode runs
+  const settings = getChannelSettings(message.channel)!;
+  if(settings.paused || settings.exemptUsers.includes(message.user)) {
+    indexMessage(message.channel, message.ts, message.text || "");
+    await handleGameMessage(message.user, renderMessage(parseMessage(message.text || "")), message.channel, message.ts, app);
+    return;
+  }
+
+  // Players in a cooldown can't post at all until it ends
+  const cooldownEnd = getCooldownEnd(message.user);
+  if(settings.enforcement === EnforcementLevel.Timeout && cooldownEnd !== undefined) {
+    console.log('\x1b[34m', `${message.user} is in a cooldown; deleting their message`, '\x1b[0m');
+    if(await deleteMessage(message.channel, message.ts, app)) {
+      await queueSlackCall(message.channel, `tell ${message.user} about their cooldown`, () => app.client.chat.postEphemeral({
+        channel: message.channel,
+        user: message.user,
+        thread_ts: message.thread_ts,
+        text: `Your message has been deleted, since you can't post here until ${slackTime(cooldownEnd)}.`
+      }));
+      return;
+    }
+  }
   
-  const violations = await getViolations(message.text || "", app);
-  console.log('\x1b[34m', `Violations: ${violations.map(violation => violation.name).join(", ")}`, '\x1b[0m');
-
-  if(violations.length > 0) {
-    const violationMessages = violations.map(violation => `  :x: ${violation.name}: ${violation.description}`);
-    await say({
-      text: `<@${message.user}>, Your message violates the following rules:\n${violationMessages.join("\n")}`,
-      thread_ts: message.ts
-    });
+  // Players who play without choosing a team are put on one, if there are any
+  const assignedTeam = assignTeam(message.user);
+  if(assignedTeam !== undefined) {
+    await queueSlackCall(message.channel, `tell ${message.user} about their team`, () => app.client.chat.postEphemeral({
+      channel: message.channel,
+      user: message.user,
+      thread_ts: message.thread_ts,
+      text: `You've been put on team *${assignedTeam}*. Your points count toward its score.`
+    }));
+  }
+
+  // Kept so edits can be checked against the same rules, even if the ruleset changes in the meantime
+  const ruleset = [...getRulesetStats(message.channel)?.ruleset ?? [], ...getTeamRules(message.channel, message.user)];
+  const violations = await getViolations(message.channel, message.text || "", app, ruleset);
+  console.log('\x1b[34m', `Violations: ${violations.map(violation => violation.rule.name).join(", ")}`, '\x1b[0m');
+
+  const punishment = violations.length > 0
+    ? await punishViolation(message.channel, message.user, message.ts, settings.enforcement)
+    : { deleted: false, consequences: [] };
+  if(violations.length > 0 && warnsPlayers(settings.enforcement)) {
+    await sendViolationReport(message.channel, message.user, violations, { threadTS: message.thread_ts, consequences: punishment.consequences });
   }
 
-  const emoji = violations.length > 0 ? "x" : "tw_white_check_mark";
-  await app.client.reactions.add({
-    name: emoji,
-    channel: message.channel,
-    timestamp: message.ts
+  if(!punishment.deleted) {
+    await queueSlackCall(message.channel, `react to ${message.ts}`, () => app.client.reactions.add({
+      name: reactionFor(violations),
+      channel: message.channel,
+      timestamp: message.ts
+    }));
+  }
+
+  const points = scoreRuleCompliance(message.user, message.text || "", violations.length, getActiveRulesetDifficulty(message.channel));
+  console.log('\x1b[34m', `Points awarded to ${message.user}: ${points}`, '\x1b[0m');
+  if(violations.length === 0) checkMessageAchievements(message.user, message.text || "", message.channel, message.ts, ruleset, app);
+
+  addToViolationHistory(message.channel, violations.map(violation => violation.rule), message.ts);
+  evaluateChange(message.channel, app);
+  // Deleted messages can't be edited, and the event their deletion causes should be ignored
+  if(punishment.deleted) return;
+  indexMessage(message.channel, message.ts, message.text || "");
+  recordMessage({
+    channelID: message.channel,
+    ts: message.ts,
+    userID: message.user,
+    ruleset,
+    violations: violations.map(violation => violation.rule.id),
+    points
   });
 
-  addToViolationHistory(violations);
-  evaluateChange(app);
+  // Game modes only care about what the player wrote, not mentions, links or code
+  await handleGameMessage(message.user, renderMessage(parseMessage(message.text || "")), message.channel, message.ts, app);
 });
 
 (async () => {
@@ -59,7 +794,24 @@ app.message(async ({ message, say }) => {
 
   console.log('\x1b[32m', 'App is running!', '\x1b[0m');
   
-  initializeRules(app);
-  startGame(GameMode.Charades);
-  setInterval(() => evaluateChange(app), 1000 * 60 * 5); // Check for changes every 5 minutes
+  await saveData.ready;
+  initializeChannels(app);
+  startTeamResults(app);
+
+  // The dashboard is optional, and never runs without a secret
+  if(process.env.DASHBOARD_PORT) {
+    if(process.env.DASHBOARD_SECRET) startDashboard(parseInt(process.env.DASHBOARD_PORT), process.env.DASHBOARD_HOST ?? "127.0.0.1", process.env.DASHBOARD_SECRET);
+    else console.error("DASHBOARD_SECRET must be set to run the dashboard.");
+  }
+
+  await messageIndexReady;
+  for(const channelID of getGameChannels()) await backfillChannel(channelID, app);
+  // Check for changes every so often, even in channels where nobody is talking
+  const evaluateAll = () => getGameChannels().forEach(channelID => evaluateChange(channelID, app));
+  let evaluateTimer = setInterval(evaluateAll, config.intervals.evaluateChanges);
+  onConfigChange(config => {
+    clearInterval(evaluateTimer);
+    evaluateTimer = setInterval(evaluateAll, config.intervals.evaluateChanges);
+  });
+  watchConfig();
 })();
\ No newline at end of file
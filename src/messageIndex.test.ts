@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+
+let messageIndex: typeof import("./messageIndex");
+
+before(async () => {
+  // Keep the real index out of this
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+  // Valid JSON, but not an index
+  fs.writeFileSync(process.env.MESSAGE_INDEX_PATH, JSON.stringify({ version: 1 }));
+
+  // Imported here so the environment is set up before the module loads
+  messageIndex = await import("./messageIndex");
+});
+
+test("an index file that isn't an index starts an empty index", async () => {
+  await messageIndex.messageIndexReady;
+  assert.equal(messageIndex.findSimilarMessage("anything at all", 0.1), undefined);
+});
+
+test("messages that only differ by case, punctuation and spacing are the same", () => {
+  messageIndex.indexMessage("C1", "1.000", "The quick brown fox jumps over the lazy dog!");
+  const match = messageIndex.findSimilarMessage("the QUICK brown fox,  jumps over the lazy dog", 1);
+  assert.deepEqual(match, { channelID: "C1", ts: "1.000", text: "the quick brown fox jumps over the lazy dog", similarity: 1 });
+  assert.equal(messageIndex.findSimilarMessage("the quick brown fox jumps over the lazy cat", 1), undefined);
+});
+
+test("similar messages are found down to the threshold", () => {
+  messageIndex.indexMessage("C1", "2.000", "pack my box with five dozen liquor jugs");
+  const match = messageIndex.findSimilarMessage("pack my box with six dozen liquor jugs", 0.7);
+  assert.equal(match?.ts, "2.000");
+  assert.ok(match.similarity >= 0.7 && match.similarity < 1);
+  assert.equal(messageIndex.findSimilarMessage("pack my box with six dozen liquor jugs", 0.95), undefined);
+  assert.equal(messageIndex.findSimilarMessage("something else entirely", 0.5), undefined);
+});
+
+test("only what the player wrote is indexed", () => {
+  messageIndex.indexMessage("C2", "3.000", "<@U123> look at <https://example.com|this> :tada:");
+  assert.equal(messageIndex.findSimilarMessage("look at", 1)?.ts, "3.000");
+  // Messages with nothing left to compare aren't indexed or matched
+  messageIndex.indexMessage("C2", "4.000", ":tada: :tada:");
+  assert.equal(messageIndex.findSimilarMessage(":tada: :tada:", 1), undefined);
+});
+
+test("removed and replaced messages aren't found anymore", () => {
+  messageIndex.indexMessage("C3", "5.000", "a message that gets deleted");
+  messageIndex.removeMessage("C3", "5.000");
+  assert.equal(messageIndex.findSimilarMessage("a message that gets deleted", 0.5), undefined);
+
+  messageIndex.indexMessage("C3", "6.000", "a message before its edit");
+  messageIndex.indexMessage("C3", "6.000", "an entirely different text");
+  assert.equal(messageIndex.findSimilarMessage("a message before its edit", 0.5), undefined);
+  assert.equal(messageIndex.findSimilarMessage("an entirely different text", 1)?.ts, "6.000");
+});
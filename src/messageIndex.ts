@@ -0,0 +1,245 @@
+import { App } from "@slack/bolt";
+import exitHook from "async-exit-hook";
+import * as fsPromises from "fs/promises";
+import { config, onConfigChange } from "./config";
+import { parseMessage, renderMessage } from "./messageParser";
+import { callSlack } from "./slackQueue";
+import { writeFileAtomically } from "./storage";
+
+// A local index of past messages in game channels, so messages can be checked for originality without searching Slack.
+// Messages are compared by their trigrams (every run of three characters), which catches rewordings that change only a
+// few letters or words.
+
+type IndexedMessage = {
+  channelID: string,
+  ts: string,
+  /** The message's normalized text. */
+  text: string,
+  trigrams: Set<string>
+};
+
+type SerializedMessageIndex = {
+  version: number,
+  messages: { channelID: string, ts: string, text: string }[]
+};
+
+/** A past message that a new message is too similar to. */
+export type SimilarMessage = {
+  channelID: string,
+  ts: string,
+  text: string,
+  /** How similar the messages are, from 0 to 1; 1 means they're the same once normalized. */
+  similarity: number
+};
+
+const maximumIndexedMessages = 20000; // The oldest messages are forgotten after this many, to keep lookups fast
+const backfilledMessagesPerChannel = 1000; // How many of each channel's past messages are fetched on startup
+
+const messages: Map<string, IndexedMessage> = new Map();
+const messagesByText: Map<string, Set<string>> = new Map();
+const messagesByTrigram: Map<string, Set<string>> = new Map();
+
+function messageKey(channelID: string, ts: string): string {
+  return `${channelID}:${ts}`;
+}
+
+// Normalizes text for comparison: lowercase, without punctuation or extra spaces
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, "").replace(/\s+/g, " ").trim();
+}
+
+function trigramsOf(text: string): Set<string> {
+  const padded = `  ${text} `;
+  const trigrams = new Set<string>();
+  for(let i = 0; i < padded.length - 2; i++) trigrams.add(padded.slice(i, i + 3));
+  return trigrams;
+}
+
+function addToLookup(lookup: Map<string, Set<string>>, value: string, key: string): void {
+  if(!lookup.has(value)) lookup.set(value, new Set());
+  lookup.get(value)!.add(key);
+}
+
+function removeFromLookup(lookup: Map<string, Set<string>>, value: string, key: string): void {
+  const keys = lookup.get(value);
+  keys?.delete(key);
+  if(keys?.size === 0) lookup.delete(value);
+}
+
+// Adds a message that has already been normalized
+function addNormalized(channelID: string, ts: string, text: string): void {
+  if(text === "") return;
+  const key = messageKey(channelID, ts);
+  if(messages.has(key)) removeMessage(channelID, ts);
+
+  const message: IndexedMessage = { channelID, ts, text, trigrams: trigramsOf(text) };
+  messages.set(key, message);
+  addToLookup(messagesByText, text, key);
+  message.trigrams.forEach(trigram => addToLookup(messagesByTrigram, trigram, key));
+
+  // Maps iterate in insertion order, so the first message is the oldest
+  if(messages.size > maximumIndexedMessages) {
+    const oldest = messages.values().next().value!;
+    removeMessage(oldest.channelID, oldest.ts);
+  }
+}
+
+/**
+ * Adds a message to the index, replacing it if it's already there.
+ * @param channelID
+ * @param ts
+ * @param text The message's text, as it's sent in message events.
+ */
+export function indexMessage(channelID: string, ts: string, text: string): void {
+  // Only what the player wrote counts, not mentions, links or code
+  addNormalized(channelID, ts, normalizeText(renderMessage(parseMessage(text))));
+}
+
+/**
+ * Removes a message from the index, like when it's deleted or about to be checked again after an edit.
+ * @param channelID
+ * @param ts
+ */
+export function removeMessage(channelID: string, ts: string): void {
+  const key = messageKey(channelID, ts);
+  const message = messages.get(key);
+  if(message === undefined) return;
+  messages.delete(key);
+  removeFromLookup(messagesByText, message.text, key);
+  message.trigrams.forEach(trigram => removeFromLookup(messagesByTrigram, trigram, key));
+}
+
+/**
+ * Finds the past message most similar to a message, if any is at least as similar as the threshold.
+ * @param text The text to look for, which doesn't need to be normalized.
+ * @param threshold The lowest similarity that counts, from 0 to 1; 1 only finds messages that are the same once normalized.
+ * @returns
+ */
+export function findSimilarMessage(text: string, threshold: number): SimilarMessage | undefined {
+  const normalized = normalizeText(text);
+  if(normalized === "") return undefined;
+
+  const exactKey = messagesByText.get(normalized)?.values().next().value;
+  if(exactKey !== undefined) {
+    const match = messages.get(exactKey)!;
+    return { channelID: match.channelID, ts: match.ts, text: match.text, similarity: 1 };
+  }
+  if(threshold >= 1) return undefined;
+
+  // Count the trigrams each past message shares with this one, then compare by Jaccard similarity
+  const trigrams = trigramsOf(normalized);
+  const sharedCounts: Map<string, number> = new Map();
+  trigrams.forEach(trigram => messagesByTrigram.get(trigram)?.forEach(key => sharedCounts.set(key, (sharedCounts.get(key) ?? 0) + 1)));
+
+  let best: SimilarMessage | undefined;
+  sharedCounts.forEach((shared, key) => {
+    const message = messages.get(key)!;
+    const similarity = shared / (trigrams.size + message.trigrams.size - shared);
+    if(similarity >= threshold && similarity > (best?.similarity ?? 0)) {
+      best = { channelID: message.channelID, ts: message.ts, text: message.text, similarity };
+    }
+  });
+  return best;
+}
+
+/**
+ * Adds a channel's recent history to the index, so messages from before the bot started count too.
+ * @param channelID
+ * @param app
+ */
+export async function backfillChannel(channelID: string, app: App): Promise<void> {
+  const history: { ts: string, text: string }[] = [];
+  let cursor: string | undefined;
+  try {
+    do {
+      const result = await callSlack(`fetch the history of ${channelID}`, () => app.client.conversations.history({ channel: channelID, limit: 200, cursor }));
+      for(const message of result.messages ?? []) {
+        if(message.ts === undefined || message.bot_id !== undefined) continue;
+        if(message.subtype !== undefined && message.subtype !== "thread_broadcast") continue;
+        history.push({ ts: message.ts, text: message.text ?? "" });
+      }
+      cursor = result.response_metadata?.next_cursor || undefined;
+    } while(cursor !== undefined && history.length < backfilledMessagesPerChannel);
+  } catch(error) {
+    console.error(`Couldn't fetch the message history of ${channelID}:`, error);
+  }
+
+  // The history starts with the newest message, but the index needs the oldest first
+  history.reverse().forEach(message => {
+    if(!messages.has(messageKey(channelID, message.ts))) indexMessage(channelID, message.ts, message.text);
+  });
+  console.log("\x1b[32m", `Indexed ${history.length} past messages from ${channelID}.`, "\x1b[0m");
+}
+
+// Persistence
+
+const messageIndexPath = process.env.MESSAGE_INDEX_PATH ?? config.paths.messageIndex;
+
+// The save in progress, so saves happen one at a time instead of writing the temporary file together
+let lastSave: Promise<void> = Promise.resolve();
+
+// Saves the index, logging instead of throwing if it fails so the autosave and exit hook carry on
+function saveIndex(): Promise<void> {
+  lastSave = lastSave.then(async () => {
+    try {
+      // Saving before the old index has loaded would overwrite it
+      await messageIndexReady;
+      const data: SerializedMessageIndex = {
+        version: 1,
+        messages: Array.from(messages.values()).map(({ channelID, ts, text }) => ({ channelID, ts, text }))
+      };
+      await writeFileAtomically(messageIndexPath, JSON.stringify(data));
+    } catch(error) {
+      console.error("Failed to save the message index:", error);
+    }
+  });
+  return lastSave;
+}
+
+function isIndexedMessage(message: unknown): message is SerializedMessageIndex["messages"][number] {
+  return typeof message === "object" && message !== null && "channelID" in message && "ts" in message && "text" in message
+    && typeof message.channelID === "string" && typeof message.ts === "string" && typeof message.text === "string";
+}
+
+// Loads the saved index. An index that can't be read starts over empty, since messages are indexed again as they come in
+// and the index is only a cache of Slack's history.
+async function loadIndex(): Promise<void> {
+  let content: string;
+  try {
+    content = await fsPromises.readFile(messageIndexPath, "utf-8");
+  } catch {
+    return; // Nothing has been indexed yet
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch(error) {
+    console.error(`The message index ${messageIndexPath} isn't valid JSON; starting with an empty index.`, error);
+    return;
+  }
+  if(typeof data !== "object" || data === null || !("messages" in data) || !Array.isArray(data.messages)) {
+    console.error(`The message index ${messageIndexPath} has no list of messages; starting with an empty index.`);
+    return;
+  }
+  const savedMessages: unknown[] = data.messages;
+  const validMessages = savedMessages.filter(isIndexedMessage);
+  if(validMessages.length < savedMessages.length) {
+    console.error(`Skipping ${savedMessages.length - validMessages.length} messages in ${messageIndexPath} that aren't valid.`);
+  }
+  validMessages.forEach(message => addNormalized(message.channelID, message.ts, message.text));
+  console.log("\x1b[32m", `Loaded ${messages.size} indexed messages.`, "\x1b[0m");
+}
+
+/** Resolves once the saved index has been loaded. */
+export const messageIndexReady: Promise<void> = loadIndex();
+
+exitHook(async (callback) => {
+  await saveIndex();
+  callback();
+});
+// Saved as often as the save data
+let autosaveTimer = setInterval(() => saveIndex(), config.intervals.autosave);
+onConfigChange(config => {
+  clearInterval(autosaveTimer);
+  autosaveTimer = setInterval(() => saveIndex(), config.intervals.autosave);
+});
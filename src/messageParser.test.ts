@@ -0,0 +1,38 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseMessage, renderMessage } from "./messageParser";
+
+test("emoji are parsed out of the text", () => {
+  assert.deepEqual(parseMessage("nice :fire::fire: (:tada:)"), [
+    { type: "text", text: "nice " },
+    { type: "emoji", name: "fire" },
+    { type: "emoji", name: "fire" },
+    { type: "text", text: " (" },
+    { type: "emoji", name: "tada" },
+    { type: "text", text: ")" }
+  ]);
+  assert.equal(renderMessage(parseMessage(":wave::skin-tone-2: hi")), "hi");
+});
+
+test("emoji without letters in their name are only the common ones", () => {
+  assert.deepEqual(parseMessage(":100: :+1: :-1:"), [
+    { type: "emoji", name: "100" },
+    { type: "text", text: " " },
+    { type: "emoji", name: "+1" },
+    { type: "text", text: " " },
+    { type: "emoji", name: "-1" }
+  ]);
+  assert.equal(renderMessage(parseMessage("score :42: so far")), "score :42: so far");
+});
+
+test("times and ratios aren't mistaken for emoji", () => {
+  assert.equal(renderMessage(parseMessage("meet at 10:30:45 today")), "meet at 10:30:45 today");
+  assert.equal(renderMessage(parseMessage("mix it 1:2:3")), "mix it 1:2:3");
+  assert.equal(renderMessage(parseMessage("v2:beta:release")), "v2:beta:release");
+});
+
+test("mentions, links and code only count when asked for", () => {
+  const tokens = parseMessage("hey <@U123|sam>, see <https://example.com|this> and `code`");
+  assert.equal(renderMessage(tokens), "hey , see and");
+  assert.equal(renderMessage(tokens, { mentions: true, links: true, emoji: false, code: true, quotes: false }), "hey @sam, see this and code");
+});
@@ -0,0 +1,115 @@
+/** A piece of a Slack message, as sent in the `text` of message events. */
+export type MessageToken =
+  | { type: "text", text: string } // Plain text, including words, whitespace and punctuation
+  | { type: "emoji", name: string } // :name:
+  | { type: "mention", label: string } // Users, channels, user groups and @here-style mentions
+  | { type: "link", url: string, label?: string }
+  | { type: "code", text: string } // Inline code and code blocks
+  | { type: "quote", text: string }; // A line quoted with >
+
+/** Which parts of a message besides plain text count towards a rule. */
+export type CountedElements = {
+  mentions: boolean,
+  links: boolean,
+  emoji: boolean,
+  code: boolean,
+  quotes: boolean
+};
+
+/** By default, rules only look at what the player actually wrote. */
+export const defaultCountedElements: CountedElements = {
+  mentions: false,
+  links: false,
+  emoji: false,
+  code: false,
+  quotes: false
+};
+
+// Slack escapes these characters in message text
+function decodeEntities(text: string): string {
+  return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+// Turns the inside of a <...> into a mention or link
+function parseAngleBrackets(content: string, label: string | undefined): MessageToken {
+  switch(content[0]) {
+    case "@": // <@U123> or <@U123|name>
+      return { type: "mention", label: `@${label ?? content.slice(1)}` };
+    case "#": // <#C123|channel>
+      return { type: "mention", label: `#${label ?? content.slice(1)}` };
+    case "!": // <!here>, <!subteam^S123|@group>, <!date^...|fallback>
+      return { type: "mention", label: label ?? `@${content.slice(1)}` };
+    default:
+      return { type: "link", url: content, label };
+  }
+}
+
+// Parses a line with no code blocks or quotes in it
+function parseInline(line: string): MessageToken[] {
+  const tokens: MessageToken[] = [];
+  // Emoji can't follow a letter or digit and need a letter in their name (apart from a few like :100: and :+1:),
+  // so times like 10:30:45 stay as text
+  const inlinePattern = /`([^`\n]+)`|<([^>|]+)(?:\|([^>]*))?>|(?<![a-z0-9]):((?=[a-z0-9_+'\-]*[a-z])[a-z0-9_+'\-]+|100|1234|\+1|-1):/gi;
+
+  let lastIndex = 0;
+  for(const match of line.matchAll(inlinePattern)) {
+    if(match.index! > lastIndex) tokens.push({ type: "text", text: decodeEntities(line.slice(lastIndex, match.index)) });
+    lastIndex = match.index! + match[0].length;
+
+    if(match[1] !== undefined) tokens.push({ type: "code", text: decodeEntities(match[1]) });
+    else if(match[2] !== undefined) tokens.push(parseAngleBrackets(match[2], match[3] === undefined ? undefined : decodeEntities(match[3])));
+    else tokens.push({ type: "emoji", name: match[4] });
+  }
+  if(lastIndex < line.length) tokens.push({ type: "text", text: decodeEntities(line.slice(lastIndex)) });
+  return tokens;
+}
+
+/**
+ * Splits a message's mrkdwn text into tokens.
+ * @param text
+ * @returns
+ */
+export function parseMessage(text: string): MessageToken[] {
+  const tokens: MessageToken[] = [];
+  // Code blocks can span lines, so they're split out before anything else
+  const segments = text.split(/(```[\s\S]*?```)/);
+  segments.forEach((segment, index) => {
+    if(index % 2 === 1) {
+      tokens.push({ type: "code", text: decodeEntities(segment.slice(3, -3)) });
+      return;
+    }
+
+    segment.split(/(\n)/).forEach(line => {
+      if(line === "") return;
+      const quote = line.match(/^(?:&gt;|>) ?(.*)$/);
+      if(quote) tokens.push({ type: "quote", text: decodeEntities(quote[1]) });
+      else tokens.push(...parseInline(line));
+    });
+  });
+  return tokens;
+}
+
+/**
+ * Renders tokens back into plain text for rules to check, leaving out anything that doesn't count.
+ * @param tokens
+ * @param counts Which parts of the message besides plain text to include.
+ * @returns
+ */
+export function renderMessage(tokens: MessageToken[], counts: CountedElements = defaultCountedElements): string {
+  const text = tokens.map(token => {
+    switch(token.type) {
+      case "text": return token.text;
+      case "emoji": return counts.emoji ? `:${token.name}:` : "";
+      case "mention": return counts.mentions ? token.label : "";
+      case "link": return counts.links ? token.label ?? token.url : "";
+      case "code": return counts.code ? token.text : "";
+      case "quote": return counts.quotes ? token.text : "";
+      default:
+        const _exhaustiveCheck: never = token;
+        return _exhaustiveCheck;
+    }
+  }).join("");
+
+  // Removing tokens can leave behind doubled or leading spaces
+  return text.replace(/[ \t]{2,}/g, " ").replace(/^\s+|\s+$/g, "");
+}
@@ -0,0 +1,61 @@
+// Remembers how recent messages were judged, so edits and deletions can correct the reactions, history and scores
+
+/** How the bot judged a message in a game channel. */
+export type MessageRecord = {
+  channelID: string,
+  ts: string,
+  userID: string,
+  /** The rules that were active when the message was sent, which edits are checked against. */
+  ruleset: string[],
+  violations: string[],
+  /** The points the message earned, which are negative for violations. */
+  points: number
+};
+
+// Edits to messages older than this aren't re-checked, so the records don't grow forever
+const recordLifetime = 1000 * 60 * 60 * 24; // 1 day
+
+const records: Map<string, MessageRecord> = new Map();
+
+function recordKey(channelID: string, ts: string): string {
+  return `${channelID}:${ts}`;
+}
+
+// Slack timestamps are seconds since the Unix epoch, with a unique suffix after the decimal point
+function isExpired(record: MessageRecord, time: number): boolean {
+  return time - parseFloat(record.ts) * 1000 > recordLifetime;
+}
+
+/**
+ * Remembers how a message was judged, replacing any earlier record of it.
+ * @param record
+ */
+export function recordMessage(record: MessageRecord): void {
+  const time = Date.now();
+  // Maps iterate in insertion order, so the oldest records come first
+  for(const [key, oldRecord] of records) {
+    if(!isExpired(oldRecord, time)) break;
+    records.delete(key);
+  }
+  records.set(recordKey(record.channelID, record.ts), record);
+}
+
+/**
+ * Gets how a message was judged.
+ * @param channelID
+ * @param ts
+ * @returns The record, or undefined if the message wasn't judged recently.
+ */
+export function getMessageRecord(channelID: string, ts: string): MessageRecord | undefined {
+  const record = records.get(recordKey(channelID, ts));
+  return record === undefined || isExpired(record, Date.now()) ? undefined : record;
+}
+
+/**
+ * Forgets a message, usually because it was deleted.
+ * @param channelID
+ * @param ts
+ */
+export function forgetMessage(channelID: string, ts: string): void {
+  records.delete(recordKey(channelID, ts));
+}
@@ -0,0 +1,50 @@
+// Copies the save data from one kind of storage to another, like from the JSON file to SQLite.
+// Usage: npm run migrate-storage -- <json|sqlite> <json|sqlite>. Stop the bot first, or it will overwrite the copy.
+
+import "dotenv/config";
+import { StorageType } from "./config";
+import { openStorage } from "./storage";
+
+const usage = `Usage: npm run migrate-storage -- <from> <to>
+
+Copies the save data between storage types, which are "json" and "sqlite". Each is kept at its path in the config, or
+in SAVE_DATA_PATH or SAVE_DATABASE_PATH if set. Stop the bot first, then set "storage" in the config to the new type
+before starting it again.`;
+
+const storageTypes: StorageType[] = ["json", "sqlite"];
+
+// Runs one step of the copy, and exits saying what failed if it throws, like a database that can't be opened
+async function step<T>(description: string, run: () => T | Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch(error) {
+    console.error(`Failed to ${description}:`, error);
+    process.exit(1);
+  }
+}
+
+(async () => {
+  const [from, to] = process.argv.slice(2) as StorageType[];
+  if(process.argv.length !== 4 || !storageTypes.includes(from) || !storageTypes.includes(to) || from === to) {
+    console.log(usage);
+    process.exit(1);
+  }
+
+  const source = await step(`open the ${from} storage to copy from`, () => openStorage(from));
+  const destination = await step(`open the ${to} storage to copy to`, () => openStorage(to));
+  const data = await step(`read the save data from the ${source.description}`, () => source.load());
+  if(data === undefined) {
+    console.error(`There's no save data in the ${source.description} to copy.`);
+    process.exit(1);
+  }
+  if(await step(`read the save data already in the ${destination.description}`, () => destination.load()) !== undefined) {
+    // The old data is kept, just in case
+    await step(`back up the save data already in the ${destination.description}`, () => destination.backUp("before-migration.bak"));
+    console.log(`Backed up the save data that was already in the ${destination.description}.`);
+  }
+
+  await step(`write the save data to the ${destination.description}`, () => destination.save(data));
+  const playerCount = Object.keys(data.players).length;
+  console.log(`Copied ${playerCount} ${playerCount === 1 ? "player" : "players"} from the ${source.description} to the ${destination.description}.`);
+  process.exit(0);
+})();
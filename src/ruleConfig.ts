@@ -0,0 +1,482 @@
+import { App } from "@slack/bolt";
+import * as fs from "fs";
+import topThousandWords from "./topThousandEnglishWords.json";
+import { CountedElements, defaultCountedElements, MessageToken, renderMessage } from "./messageParser";
+import { findSimilarMessage } from "./messageIndex";
+import { getFailingExamples } from "./satisfiability";
+import { callSlack } from "./slackQueue";
+
+/** The result of checking a message against a rule. */
+export type CheckResult = {
+  passed: boolean,
+  /** What in the message broke the rule, like which letters repeated, to show the player. Can be empty even if it failed. */
+  problems: string[]
+};
+
+export function pass(): CheckResult {
+  return { passed: true, problems: [] };
+}
+
+export function fail(...problems: string[]): CheckResult {
+  return { passed: false, problems };
+}
+
+// Formats part of a message so it stands out in a problem, with symbols for whitespace so it can be seen at all
+export function highlight(text: string): string {
+  const visible = text.trim() === ""
+    ? text.replace(/ /g, "␣").replace(/\t/g, "⇥").replace(/\n/g, "↵")
+    : text.replace(/`/g, "'").replace(/\n/g, " ");
+  return `\`${visible}\``;
+}
+
+// Lists the first few items, so a long message doesn't make for an even longer reply
+export function listItems(items: string[], limit = 8): string {
+  if(items.length <= limit) return items.join(", ");
+  return `${items.slice(0, limit).join(", ")} and ${items.length - limit} more`;
+}
+
+/** Another rule that can't be active at the same time as a rule, and why. */
+export type RuleConflict = {
+  rule: string,
+  reason: string
+};
+
+export type Rule = {
+  id: string,
+  name: string,
+  description: string,
+  /** Checks the message's text, rendered with only the elements the rule counts, and its full list of tokens. */
+  check: (message: string, tokens: MessageToken[]) => CheckResult,
+  /** Checks the message's text against Slack, for rules that need more than the message itself. */
+  slackCheck?: (message: string, app: App) => Promise<CheckResult>,
+  /** Which parts of a message besides plain text the rule counts; defaults to none of them. */
+  counts?: CountedElements,
+  /**
+   * Rules that can't be active at the same time as this one even though messages could pass both, because they're too
+   * hard together. Rules that no message can pass together don't need to be listed, since the examples show that.
+   */
+  conflictsWith?: RuleConflict[],
+  /** Rules that every message passing this one also passes, so having both active would be redundant. */
+  implies?: string[],
+  /** Messages that pass the rule, used to check that rulesets including it can actually be followed. */
+  examples?: string[],
+  /** Whether the rule depends on past messages, so it can't be checked against examples. */
+  dependsOnHistory?: boolean,
+  difficulty: number
+};
+
+// Config file format
+
+type CharacterClass = "lowercase" | "uppercase" | "letters" | "digits" | "whitespace" | "punctuation";
+
+/** A built-in check that a rule in the config file can be made of. */
+type CheckConfig =
+  | { type: "matches", pattern: string, flags?: string } // The message must match the regex
+  | { type: "doesNotMatch", pattern: string, flags?: string } // The message must not match the regex
+  | { type: "length", min?: number, max?: number } // The number of characters in the message
+  | { type: "wordCount", min?: number, max?: number } // The number of whitespace-separated words in the message
+  | { type: "characters", class: CharacterClass, min?: number, max?: number } // The number of characters of a class in the message
+  | { type: "distinctLetters", min?: number, max?: number } // The number of different letters in the message
+  | { type: "repeatedLetters", min?: number, max?: number } // The number of letters in the message that already appeared earlier in it
+  | { type: "commonWords", min?: number, max?: number } // The number of words in the message that are among the 1000 most common English words
+  | { type: "onlyEmoji" } // The message must only contain emoji, apart from whitespace and elements the rule doesn't count
+  | { type: "uniqueInWorkspace" } // No message in the workspace can match a search for the message
+  | { type: "unseen", similarity?: number }; // No past message in a game channel can be this similar, from 0 to 1 (the default, meaning the same once normalized)
+
+/** The checks that have to ask Slack, so they can only run with an app. */
+type SlackCheckConfig = Extract<CheckConfig, { type: "uniqueInWorkspace" }>;
+
+type RuleConfig = {
+  id: string,
+  name: string,
+  description: string,
+  difficulty: number,
+  conflictsWith?: RuleConflict[],
+  implies?: string[],
+  examples?: string[],
+  counts?: Partial<CountedElements>,
+  checks: CheckConfig[]
+};
+
+type RulesFile = {
+  rules: RuleConfig[]
+};
+
+const characterClasses: { [characterClass in CharacterClass]: RegExp } = {
+  lowercase: /\p{Ll}/gu,
+  uppercase: /\p{Lu}/gu,
+  letters: /[a-z]/gi,
+  digits: /[0-9]/g,
+  whitespace: /\s/g,
+  punctuation: /[.,!?:;]/g
+};
+
+// Checks that the count is within the optional bounds
+function inRange(count: number, check: { min?: number, max?: number }): boolean {
+  return (check.min === undefined || count >= check.min) && (check.max === undefined || count <= check.max);
+}
+
+// Describes how a count is out of range, like "Has 12 words, but can have at most 10."
+function outOfRange(count: number, check: { min?: number, max?: number }, unit: string): string {
+  const limit = check.min !== undefined && count < check.min ? `needs at least ${check.min}` : `can have at most ${check.max}`;
+  return `Has ${count} ${unit}, but ${limit}.`;
+}
+
+function lettersOf(message: string): string[] {
+  return message.toLowerCase().split("").filter(char => char.match(/[a-z]/i));
+}
+
+function wordsOf(message: string): string[] {
+  return message.split(/\s+/).filter(word => word !== "");
+}
+
+// Counts how many times each item appears, in order of first appearance
+function countItems(items: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1));
+  return counts;
+}
+
+const alphabet = "abcdefghijklmnopqrstuvwxyz".split("");
+
+// Turns a check from the config file into a function that checks a message
+function createCheck(check: Exclude<CheckConfig, SlackCheckConfig>, counts: CountedElements): Rule["check"] {
+  switch(check.type) {
+    case "matches": {
+      const regex = new RegExp(check.pattern, check.flags);
+      return (message: string) => regex.test(message) ? pass() : fail();
+    }
+    case "doesNotMatch": {
+      const regex = new RegExp(check.pattern, check.flags);
+      const allMatches = new RegExp(check.pattern, `${check.flags ?? ""}g`);
+      return (message: string) => {
+        if(!regex.test(message)) return pass();
+        const found = countItems(Array.from(message.matchAll(allMatches), match => match[0]));
+        return fail(`Found ${listItems(Array.from(found).map(([text, count]) => count > 1 ? `${highlight(text)} (${count} times)` : highlight(text)))}.`);
+      };
+    }
+    case "length":
+      return (message: string) => inRange(message.length, check) ? pass() : fail(outOfRange(message.length, check, "characters"));
+    case "wordCount":
+      return (message: string) => {
+        const wordCount = wordsOf(message).length;
+        return inRange(wordCount, check) ? pass() : fail(outOfRange(wordCount, check, "words"));
+      };
+    case "characters":
+      return (message: string) => {
+        const found = message.match(characterClasses[check.class]) ?? [];
+        if(inRange(found.length, check)) return pass();
+        const tooMany = check.max !== undefined && found.length > check.max;
+        return fail(tooMany
+          ? `Has ${check.class} characters: ${listItems(Array.from(new Set(found)).map(highlight))}.`
+          : outOfRange(found.length, check, `${check.class} characters`));
+      };
+    case "distinctLetters":
+      return (message: string) => {
+        const used = new Set(lettersOf(message));
+        if(inRange(used.size, check)) return pass();
+        const tooFew = check.min !== undefined && used.size < check.min;
+        const missing = alphabet.filter(letter => !used.has(letter));
+        return fail(outOfRange(used.size, check, "different letters"), ...(tooFew ? [`Missing ${listItems(missing.map(highlight), 26)}.`] : []));
+      };
+    case "repeatedLetters":
+      return (message: string) => {
+        const letters = lettersOf(message);
+        if(inRange(letters.length - new Set(letters).size, check)) return pass();
+        const repeated = Array.from(countItems(letters)).filter(([_, count]) => count > 1);
+        return fail(repeated.length > 0
+          ? `Repeats ${listItems(repeated.map(([letter, count]) => `${highlight(letter)} (${count} times)`))}.`
+          : outOfRange(0, check, "repeated letters"));
+      };
+    case "commonWords":
+      return (message: string) => {
+        const words = message.split(/[\s\-.,!?]+/);
+        const commonWords = words.filter(word => topThousandWords.includes(word.toLowerCase()));
+        if(inRange(commonWords.length, check)) return pass();
+        const tooMany = check.max !== undefined && commonWords.length > check.max;
+        return fail(tooMany
+          ? `Has common words: ${listItems(Array.from(new Set(commonWords)).map(highlight))}.`
+          : outOfRange(commonWords.length, check, "common words"));
+      };
+    case "onlyEmoji":
+      return (message: string, tokens: MessageToken[]) => {
+        const countedTypes = ["text", "emoji"];
+        if(counts.mentions) countedTypes.push("mention");
+        if(counts.links) countedTypes.push("link");
+        if(counts.code) countedTypes.push("code");
+        if(counts.quotes) countedTypes.push("quote");
+        const countedTokens = tokens.filter(token => countedTypes.includes(token.type));
+        const notEmoji = countedTokens.filter(token => token.type !== "emoji" && !(token.type === "text" && token.text.trim() === ""));
+        const hasEmoji = countedTokens.some(token => token.type === "emoji");
+        if(hasEmoji && notEmoji.length === 0) return pass();
+        const notEmojiText = notEmoji.map(token => renderMessage([token], { mentions: true, links: true, emoji: true, code: true, quotes: true }));
+        return fail(...(hasEmoji ? [] : ["Has no emoji."]), ...(notEmoji.length > 0 ? [`Has more than emoji: ${listItems(notEmojiText.map(highlight))}.`] : []));
+      };
+    case "unseen":
+      return (message: string) => {
+        const match = findSimilarMessage(message, check.similarity ?? 1);
+        if(match === undefined) return pass();
+        const sent = `<!date^${Math.floor(parseFloat(match.ts))}^{date_short_pretty} at {time}|earlier>`;
+        return fail(match.similarity === 1
+          ? `Was already sent in <#${match.channelID}> ${sent}.`
+          : `Is ${Math.round(match.similarity * 100)}% similar to ${highlight(match.text)}, sent in <#${match.channelID}> ${sent}.`);
+      };
+    default:
+      const _exhaustiveCheck: never = check;
+      return _exhaustiveCheck;
+  }
+}
+
+// Turns a check from the config file that has to ask Slack into a function that checks a message
+function createSlackCheck(check: SlackCheckConfig): NonNullable<Rule["slackCheck"]> {
+  switch(check.type) {
+    case "uniqueInWorkspace":
+      return async (message: string, app: App) => {
+        const result = await callSlack("search for a message", () => app.client.search.messages({
+          query: message,
+          token: process.env.SLACK_USER_TOKEN,
+          count: 1
+        }));
+        const total = result.messages?.total ?? 0;
+        if(total === 0) return pass();
+        const permalink = result.messages?.matches?.[0]?.permalink;
+        return fail(`Found ${total} ${total === 1 ? "message" : "messages"} like it in the workspace${permalink ? `, like <${permalink}|this one>` : ""}.`);
+      };
+    default:
+      const _exhaustiveCheck: never = check.type;
+      return _exhaustiveCheck;
+  }
+}
+
+function isSlackCheck(check: CheckConfig): check is SlackCheckConfig {
+  return check.type === "uniqueInWorkspace";
+}
+
+export function combineResults(results: CheckResult[]): CheckResult {
+  return { passed: results.every(result => result.passed), problems: results.flatMap(result => result.problems) };
+}
+
+// Combines a rule's checks into one; the message has to pass all of them. Every check runs, so all the problems are found.
+function combineChecks(checks: Rule["check"][]): Rule["check"] {
+  return (message: string, tokens: MessageToken[]) => combineResults(checks.map(check => check(message, tokens)));
+}
+
+function combineSlackChecks(checks: NonNullable<Rule["slackCheck"]>[]): Rule["slackCheck"] {
+  if(checks.length === 0) return undefined;
+  return async (message: string, app: App) => combineResults(await Promise.all(checks.map(check => check(message, app))));
+}
+
+// Validation
+
+const checkFields: { [type in CheckConfig["type"]]: string[] } = {
+  matches: ["pattern", "flags"],
+  doesNotMatch: ["pattern", "flags"],
+  length: ["min", "max"],
+  wordCount: ["min", "max"],
+  characters: ["class", "min", "max"],
+  distinctLetters: ["min", "max"],
+  repeatedLetters: ["min", "max"],
+  commonWords: ["min", "max"],
+  onlyEmoji: [],
+  uniqueInWorkspace: [],
+  unseen: ["similarity"]
+};
+
+// A JSON object whose fields haven't been checked yet
+type UncheckedObject = { [field: string]: unknown };
+
+function isObject(value: unknown): value is UncheckedObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Validates a check from the config file, adding a description of each problem to errors
+function validateCheck(check: unknown, path: string, errors: string[]): void {
+  if(!isObject(check)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  if(typeof check.type !== "string" || !Object.hasOwn(checkFields, check.type)) {
+    errors.push(`${path}.type must be one of ${Object.keys(checkFields).join(", ")}, but is ${JSON.stringify(check.type)}.`);
+    return;
+  }
+
+  const type = check.type as CheckConfig["type"];
+  for(const field of Object.keys(check)) {
+    if(field !== "type" && !checkFields[type].includes(field)) {
+      errors.push(`${path} has unknown field "${field}" for a ${type} check.`);
+    }
+  }
+
+  for(const field of ["min", "max"]) {
+    const value = check[field];
+    if(value !== undefined && (typeof value !== "number" || value < 0)) {
+      errors.push(`${path}.${field} must be a non-negative number.`);
+    }
+  }
+  if(checkFields[type].includes("min") && check.min === undefined && check.max === undefined) {
+    errors.push(`${path} must have a min, a max or both.`);
+  }
+
+  if(type === "matches" || type === "doesNotMatch") {
+    const { pattern, flags } = check;
+    if(typeof pattern !== "string") {
+      errors.push(`${path}.pattern must be a string.`);
+      return;
+    }
+    if(flags !== undefined && (typeof flags !== "string" || /[gy]/.test(flags))) {
+      errors.push(`${path}.flags must be a string of regex flags other than g and y.`);
+      return;
+    }
+    try {
+      new RegExp(pattern, flags);
+    } catch(error) {
+      errors.push(`${path}.pattern is not a valid regular expression: ${(error as Error).message}`);
+    }
+  }
+  if(check.similarity !== undefined && (typeof check.similarity !== "number" || check.similarity <= 0 || check.similarity > 1)) {
+    errors.push(`${path}.similarity must be a number above 0 and at most 1.`);
+  }
+  if(type === "characters" && (typeof check.class !== "string" || !Object.hasOwn(characterClasses, check.class))) {
+    errors.push(`${path}.class must be one of ${Object.keys(characterClasses).join(", ")}.`);
+  }
+}
+
+// Validates the contents of a rules file, returning a description of each problem
+function validateRulesFile(data: unknown): string[] {
+  const errors: string[] = [];
+  if(!isObject(data) || !Array.isArray(data.rules)) {
+    return ["The file must contain an object with a \"rules\" array."];
+  }
+  const rules: unknown[] = data.rules;
+
+  const ids = new Set<string>();
+  rules.forEach((rule, index) => {
+    const path = `rules[${index}]${isObject(rule) && typeof rule.id === "string" ? ` (${rule.id})` : ""}`;
+    if(!isObject(rule)) {
+      errors.push(`${path} must be an object.`);
+      return;
+    }
+
+    for(const field of ["id", "name", "description"]) {
+      if(typeof rule[field] !== "string" || rule[field] === "") errors.push(`${path}.${field} must be a non-empty string.`);
+    }
+    if(typeof rule.id === "string") {
+      // Colons are reserved for rule templates, and spaces separate rule IDs in the rule statistics
+      if(!/^[a-z0-9_-]+$/i.test(rule.id)) errors.push(`${path}.id can only contain letters, numbers, "-" and "_".`);
+      if(ids.has(rule.id)) errors.push(`${path}.id is used by more than one rule.`);
+      ids.add(rule.id);
+    }
+    if(typeof rule.difficulty !== "number" || rule.difficulty < 0) {
+      errors.push(`${path}.difficulty must be a non-negative number.`);
+    }
+    if(!Array.isArray(rule.checks) || rule.checks.length === 0) {
+      errors.push(`${path}.checks must be a non-empty array.`);
+    } else {
+      rule.checks.forEach((check: unknown, checkIndex: number) => validateCheck(check, `${path}.checks[${checkIndex}]`, errors));
+    }
+    if(rule.counts !== undefined) {
+      if(!isObject(rule.counts)) {
+        errors.push(`${path}.counts must be an object.`);
+      } else {
+        for(const [element, value] of Object.entries(rule.counts)) {
+          if(!Object.hasOwn(defaultCountedElements, element)) errors.push(`${path}.counts has unknown element "${element}"; it can include ${Object.keys(defaultCountedElements).join(", ")}.`);
+          else if(typeof value !== "boolean") errors.push(`${path}.counts.${element} must be true or false.`);
+        }
+      }
+    }
+    const implies = rule.implies;
+    if(implies !== undefined && (!Array.isArray(implies) || implies.some((id: unknown) => typeof id !== "string"))) {
+      errors.push(`${path}.implies must be an array of rule IDs.`);
+    }
+    const conflicts = rule.conflictsWith;
+    if(conflicts !== undefined && (!Array.isArray(conflicts) || conflicts.some((conflict: unknown) =>
+      !isObject(conflict) || typeof conflict.rule !== "string" || typeof conflict.reason !== "string" || conflict.reason === ""
+    ))) {
+      errors.push(`${path}.conflictsWith must be an array of objects with a rule ID in "rule" and why they can't go together in "reason".`);
+    }
+    const examples = rule.examples;
+    if(examples !== undefined && (!Array.isArray(examples) || examples.some((example: unknown) => typeof example !== "string" || example === ""))) {
+      errors.push(`${path}.examples must be an array of non-empty messages.`);
+    }
+  });
+
+  rules.forEach((rule, index) => {
+    if(!isObject(rule)) return;
+    const references: [string, unknown[]][] = [
+      ["implies", Array.isArray(rule.implies) ? rule.implies : []],
+      ["conflictsWith", Array.isArray(rule.conflictsWith) ? rule.conflictsWith.map((conflict: unknown) => isObject(conflict) ? conflict.rule : undefined) : []]
+    ];
+    for(const [field, otherIDs] of references) {
+      for(const otherID of otherIDs) {
+        if(typeof otherID === "string" && !ids.has(otherID)) errors.push(`rules[${index}] (${rule.id}).${field} refers to unknown rule "${otherID}".`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+// Loading
+
+/**
+ * Loads and validates rules from a config file. Conflicts only need to be listed on one of the two rules.
+ * @param path
+ * @returns
+ */
+export function loadRules(path: string): Rule[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(path, "utf-8"));
+  } catch(error) {
+    throw new Error(`Couldn't read the rules file ${path}: ${(error as Error).message}`);
+  }
+
+  const errors = validateRulesFile(data);
+  if(errors.length > 0) {
+    throw new Error(`The rules file ${path} is invalid:\n${errors.map(error => `  - ${error}`).join("\n")}`);
+  }
+
+  const rules: Rule[] = (data as RulesFile).rules.map(rule => {
+    const counts = { ...defaultCountedElements, ...rule.counts };
+    const checks = rule.checks.filter(check => !isSlackCheck(check)).map(check => createCheck(check, counts));
+    const slackChecks = rule.checks.filter(isSlackCheck).map(createSlackCheck);
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      check: checks.length === 1 ? checks[0] : combineChecks(checks),
+      slackCheck: combineSlackChecks(slackChecks),
+      counts,
+      implies: rule.implies,
+      examples: rule.examples,
+      dependsOnHistory: rule.checks.some(check => check.type === "uniqueInWorkspace" || check.type === "unseen"),
+      difficulty: rule.difficulty
+    };
+  });
+
+  rules.filter(rule => !rule.dependsOnHistory && (rule.examples ?? []).length === 0).forEach(rule => {
+    console.log('\x1b[33m', `Rule ${rule.id} has no examples, so rulesets with it will only be used if another rule's example passes it.`, '\x1b[0m');
+  });
+
+  const exampleErrors = rules.flatMap((rule, index) => getFailingExamples(rule).map(example =>
+    `rules[${index}] (${rule.id}).examples has ${JSON.stringify(example)}, which doesn't pass the rule.`
+  ));
+  if(exampleErrors.length > 0) {
+    throw new Error(`The rules file ${path} is invalid:\n${exampleErrors.map(error => `  - ${error}`).join("\n")}`);
+  }
+
+  // Conflicts go both ways
+  (data as RulesFile).rules.forEach(ruleConfig => {
+    ruleConfig.conflictsWith?.forEach(({ rule: conflictID, reason }) => {
+      const rule1 = rules.find(rule => rule.id === ruleConfig.id)!;
+      const rule2 = rules.find(rule => rule.id === conflictID)!;
+      rule1.conflictsWith ??= [];
+      if(!rule1.conflictsWith.some(conflict => conflict.rule === rule2.id)) rule1.conflictsWith.push({ rule: rule2.id, reason });
+      rule2.conflictsWith ??= [];
+      if(!rule2.conflictsWith.some(conflict => conflict.rule === rule1.id)) rule2.conflictsWith.push({ rule: rule1.id, reason });
+    });
+  });
+
+  console.log('\x1b[32m', `Loaded ${rules.length} rules from ${path}.`, '\x1b[0m');
+  return rules;
+}
@@ -0,0 +1,88 @@
+import { saveData } from "./saveData";
+
+// Difficulty is measured in stars, where each star means a message is e^(-1/4) times as likely to pass.
+// That way, a rule that 30% of messages pass is about 5 stars, like the hardest hand-picked rules.
+const difficultyScale = 4;
+// How many messages the hand-picked difficulty is worth; the more messages we see, the less it matters
+const priorWeight = 20;
+// Estimated pass rates are kept above this so one impossible-looking ruleset can't dominate everything
+const minimumPassRate = 0.001;
+
+function pairKey(ruleID1: string, ruleID2: string): string {
+  return ruleID1 < ruleID2 ? `${ruleID1} ${ruleID2}` : `${ruleID2} ${ruleID1}`;
+}
+
+// Adds a message's results to the stats, or takes them away again with a count of -1
+function countRuleResults(activeRuleIDs: string[], violatedRuleIDs: string[], count: 1 | -1): void {
+  const stats = saveData.getRuleStats();
+  const passed = (id: string) => !violatedRuleIDs.includes(id);
+
+  activeRuleIDs.forEach((id, i) => {
+    const ruleStats = stats.rules[id] ??= { checked: 0, passed: 0 };
+    ruleStats.checked += count;
+    if(passed(id)) ruleStats.passed += count;
+
+    activeRuleIDs.slice(i + 1).forEach(otherID => {
+      const pairStats = stats.pairs[pairKey(id, otherID)] ??= { checked: 0, bothPassed: 0 };
+      pairStats.checked += count;
+      if(passed(id) && passed(otherID)) pairStats.bothPassed += count;
+    });
+  });
+}
+
+/**
+ * Records which of the active rules a message passed and violated.
+ * @param activeRuleIDs
+ * @param violatedRuleIDs
+ */
+export function recordRuleResults(activeRuleIDs: string[], violatedRuleIDs: string[]): void {
+  countRuleResults(activeRuleIDs, violatedRuleIDs, 1);
+}
+
+/**
+ * Takes back results recorded with recordRuleResults, like when the message is edited or deleted.
+ * @param activeRuleIDs
+ * @param violatedRuleIDs
+ */
+export function forgetRuleResults(activeRuleIDs: string[], violatedRuleIDs: string[]): void {
+  countRuleResults(activeRuleIDs, violatedRuleIDs, -1);
+}
+
+// Estimates how likely a message is to pass a rule, starting from its hand-picked difficulty
+function passRate(ruleID: string, fallbackDifficulty: number): number {
+  const prior = Math.exp(-fallbackDifficulty / difficultyScale);
+  const ruleStats = saveData.getRuleStats().rules[ruleID];
+  if(!ruleStats) return prior;
+  return (ruleStats.passed + prior * priorWeight) / (ruleStats.checked + priorWeight);
+}
+
+// Estimates how much more (above 1) or less (below 1) likely a message is to pass both rules than if they were unrelated
+function interaction(ruleID1: string, ruleID2: string, passRate1: number, passRate2: number): number {
+  const pairStats = saveData.getRuleStats().pairs[pairKey(ruleID1, ruleID2)];
+  if(!pairStats) return 1;
+  const independent = passRate1 * passRate2;
+  const together = (pairStats.bothPassed + independent * priorWeight) / (pairStats.checked + priorWeight);
+  return together / independent;
+}
+
+/**
+ * Estimates the difficulty of a ruleset from how often its rules, and pairs of them, have been violated.
+ * Rules that haven't been seen much fall back to their hand-picked difficulty.
+ * @param ruleset
+ * @param getFallbackDifficulty Gets the hand-picked difficulty of a rule.
+ * @returns
+ */
+export function estimateDifficulty(ruleset: Set<string>, getFallbackDifficulty: (ruleID: string) => number): number {
+  const ruleIDs = Array.from(ruleset);
+  const passRates = ruleIDs.map(id => passRate(id, getFallbackDifficulty(id)));
+
+  let rulesetPassRate = passRates.reduce((product, rate) => product * rate, 1);
+  ruleIDs.forEach((id, i) => {
+    for(let j = i + 1; j < ruleIDs.length; j++) {
+      rulesetPassRate *= interaction(id, ruleIDs[j], passRates[i], passRates[j]);
+    }
+  });
+
+  rulesetPassRate = Math.min(Math.max(rulesetPassRate, minimumPassRate), 1);
+  return -Math.log(rulesetPassRate) * difficultyScale;
+}
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { setClock } from "./clock";
+
+let rollTemplateRules: typeof import("./ruleTemplates")["rollTemplateRules"];
+
+before(async () => {
+  // Keep the real message index out of this; the rules load it for the originality checks
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  ({ rollTemplateRules } = await import("./ruleTemplates"));
+});
+
+function rollTodaysWord(): string | undefined {
+  return rollTemplateRules().find(rule => rule.id.startsWith("todays-word:"))?.id;
+}
+
+test("today's word is the same all day and changes the next day", () => {
+  let time = Date.UTC(2024, 0, 3, 0, 30);
+  setClock(() => time);
+  const morningWord = rollTodaysWord();
+  time = Date.UTC(2024, 0, 3, 23, 30);
+  assert.equal(rollTodaysWord(), morningWord);
+  time = Date.UTC(2024, 0, 4, 0, 30);
+  assert.notEqual(rollTodaysWord(), morningWord);
+});
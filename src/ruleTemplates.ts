@@ -0,0 +1,186 @@
+import { now } from "./clock";
+import { fail, highlight, listItems, pass, Rule } from "./ruleConfig";
+import topThousandWords from "./topThousandEnglishWords.json";
+
+/**
+ * A family of rules that share a check but differ by a parameter, like "no letter E" and "no letter Z".
+ * Instances have IDs of the form `templateID:parameter`, so they can be saved and recreated from their ID alone.
+ */
+type RuleTemplate = {
+  id: string,
+  /** Picks a parameter for a new instance, usually at random. */
+  roll: () => string,
+  /** Creates the rule for a parameter, or returns undefined if the parameter isn't valid. */
+  instantiate: (parameter: string) => Omit<Rule, "id"> | undefined
+};
+
+// How common each letter is in English text, as a percentage
+const letterFrequencies: { [letter: string]: number } = {
+  e: 12.7, t: 9.1, a: 8.2, o: 7.5, i: 7.0, n: 6.7, s: 6.3, h: 6.1, r: 6.0, d: 4.3, l: 4.0, c: 2.8, u: 2.8,
+  m: 2.4, w: 2.4, f: 2.2, g: 2.0, y: 2.0, p: 1.9, b: 1.5, v: 1.0, k: 0.8, j: 0.15, x: 0.15, q: 0.1, z: 0.07
+};
+// How common each letter is as the first letter of an English word, as a percentage
+const initialLetterFrequencies: { [letter: string]: number } = {
+  t: 16.0, a: 11.7, o: 7.6, s: 7.8, w: 5.5, c: 5.2, i: 3.9, b: 4.4, p: 4.3, h: 4.2, f: 4.0, m: 3.8, d: 3.2,
+  r: 2.8, l: 2.4, e: 2.8, n: 2.3, g: 1.6, u: 1.2, v: 0.8, y: 0.8, j: 0.5, k: 0.6, q: 0.2, x: 0.05, z: 0.05
+};
+const letters = Object.keys(letterFrequencies);
+
+const commonWords = topThousandWords.map(word => word.toLowerCase()).filter(word => /^[a-z]+$/.test(word));
+// Words that can be picked as today's word; short words are too easy to slip in by accident
+const todaysWordChoices = commonWords.filter(word => word.length >= 4);
+
+// Picks the word for the current day in UTC, so it's the same in every channel and ruleset all day. Days are spread
+// across the list, so one day's word isn't next to the last one's alphabetically.
+function wordOfTheDay(): string {
+  const day = Math.floor(now() / 1000 / 60 / 60 / 24);
+  return todaysWordChoices[(day * 7919) % todaysWordChoices.length];
+}
+
+// Makes an example message out of a few common words that fit a rule
+function exampleOf(fits: (word: string) => boolean): string[] {
+  const words = commonWords.filter(fits).slice(0, 8);
+  return words.length === 0 ? [] : [words.join(" ")];
+}
+
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function randomInteger(min: number, max: number): number {
+  return min + Math.floor(Math.random() * (max - min + 1));
+}
+
+// Splits a message into words, ignoring punctuation around them
+function wordsOf(message: string): string[] {
+  return message.split(/\s+/).map(word => word.replace(/^[^a-z0-9]+|[^a-z0-9]+$/gi, "")).filter(word => word !== "");
+}
+
+// Splits a rule ID into its template ID and parameter; static rules have no parameter
+function parseRuleID(id: string): { templateID: string, parameter?: string } {
+  const separator = id.indexOf(":");
+  if(separator === -1) return { templateID: id };
+  return { templateID: id.slice(0, separator), parameter: id.slice(separator + 1) };
+}
+
+export const ruleTemplates: RuleTemplate[] = [{
+  id: "starts-with",
+  roll: () => randomItem(letters.filter(letter => !"xz".includes(letter))),
+  instantiate: (letter: string) => {
+    if(!letters.includes(letter)) return undefined;
+    return {
+      name: `Starts with ${letter.toUpperCase()}`,
+      description: `Every word must start with the letter ${letter.toUpperCase()}.`,
+      check: (message: string) => {
+        const wrongWords = wordsOf(message).filter(word => !word.toLowerCase().startsWith(letter));
+        return wrongWords.length === 0 ? pass() : fail(`Doesn't start with ${letter.toUpperCase()}: ${listItems(wrongWords.map(highlight))}.`);
+      },
+      // Rarer initial letters are much harder to write with
+      difficulty: Math.min(2 + Math.round(Math.log2(16 / initialLetterFrequencies[letter])), 8),
+      conflictsWith: [{ rule: "every-letter", reason: "A pangram where every word starts with the same letter is close to impossible." }],
+      examples: exampleOf(word => word.startsWith(letter))
+    };
+  }
+}, {
+  id: "max-words",
+  roll: () => String(randomInteger(3, 10)),
+  instantiate: (parameter: string) => {
+    const maxWords = parseInt(parameter);
+    if(isNaN(maxWords) || maxWords < 1) return undefined;
+    return {
+      name: `At most ${maxWords} words`,
+      description: `Messages can have at most ${maxWords} words. Brevity is the soul of wit.`,
+      check: (message: string) => {
+        const wordCount = wordsOf(message).length;
+        return wordCount <= maxWords ? pass() : fail(`Has ${wordCount} words, which is ${wordCount - maxWords} too many.`);
+      },
+      difficulty: Math.max(1, Math.round((10 - maxWords) / 2)),
+      conflictsWith: maxWords < 5 ? [{ rule: "every-letter", reason: "Fitting the whole alphabet into only a few words is close to impossible." }] : []
+    };
+  }
+}, {
+  id: "todays-word",
+  roll: () => wordOfTheDay(),
+  instantiate: (word: string) => {
+    if(!/^[a-z]+$/.test(word)) return undefined;
+    const wordRegex = new RegExp(`\\b${word}\\b`, "i");
+    return {
+      name: "Today's word",
+      description: `Every message must include today's word: *${word}*.`,
+      check: (message: string) => wordRegex.test(message) ? pass() : fail(`Doesn't include ${highlight(word)}.`),
+      difficulty: 2,
+      examples: [word]
+    };
+  }
+}, {
+  id: "no-letter",
+  roll: () => randomItem(letters),
+  instantiate: (letter: string) => {
+    if(!letters.includes(letter)) return undefined;
+    return {
+      name: `No letter ${letter.toUpperCase()}`,
+      description: `Messages can't contain the letter ${letter.toUpperCase()}.`,
+      check: (message: string) => {
+        const wrongWords = wordsOf(message).filter(word => word.toLowerCase().includes(letter));
+        if(wrongWords.length === 0 && !message.toLowerCase().includes(letter)) return pass();
+        return fail(`Has ${letter.toUpperCase()} in ${wrongWords.length > 0 ? listItems(wrongWords.map(highlight)) : "it"}.`);
+      },
+      // Avoiding common letters is much harder than avoiding rare ones
+      difficulty: Math.max(1, Math.round(letterFrequencies[letter] / 2.5)),
+      examples: exampleOf(word => !word.includes(letter))
+    };
+  }
+}, {
+  id: "word-length",
+  roll: () => String(randomInteger(3, 7)),
+  instantiate: (parameter: string) => {
+    const length = parseInt(parameter);
+    if(isNaN(length) || length < 1) return undefined;
+    return {
+      name: `${length}-letter words`,
+      description: `Every word must be exactly ${length} letters long.`,
+      check: (message: string) => {
+        const wrongWords = wordsOf(message).filter(word => word.length !== length);
+        return wrongWords.length === 0 ? pass() : fail(`Wrong length: ${listItems(wrongWords.map(word => `${highlight(word)} (${word.length})`))}.`);
+      },
+      difficulty: 3 + Math.floor(Math.abs(length - 4.5)),
+      examples: exampleOf(word => word.length === length)
+    };
+  }
+}];
+
+const instanceCache: Map<string, Rule | undefined> = new Map();
+
+/**
+ * Gets the rule instance with the given ID, if the ID belongs to a template and has a valid parameter.
+ * @param id
+ * @returns
+ */
+export function getTemplateRule(id: string): Rule | undefined {
+  if(instanceCache.has(id)) return instanceCache.get(id);
+
+  const { templateID, parameter } = parseRuleID(id);
+  const template = ruleTemplates.find(template => template.id === templateID);
+  const instance = template && parameter !== undefined ? template.instantiate(parameter) : undefined;
+  const rule = instance && { id, ...instance };
+  instanceCache.set(id, rule);
+  return rule;
+}
+
+/**
+ * Creates one fresh instance of every template, with newly rolled parameters.
+ * @returns
+ */
+export function rollTemplateRules(): Rule[] {
+  return ruleTemplates.map(template => getTemplateRule(`${template.id}:${template.roll()}`)).filter(rule => rule !== undefined);
+}
+
+/**
+ * Gets the ID of the template a rule was created from.
+ * @param ruleID
+ * @returns The template ID, or undefined if the rule isn't from a template.
+ */
+export function getTemplateID(ruleID: string): string | undefined {
+  const { templateID, parameter } = parseRuleID(ruleID);
+  return parameter === undefined ? undefined : templateID;
+}
@@ -1,154 +1,168 @@
 import { App } from "@slack/bolt";
-import topThousandWords from "./topThousandEnglishWords.json";
-
-type Rule = {
-  id: string,
-  name: string,
-  description: string,
-  check: (message: string, app: App) => boolean | Promise<boolean>,
-  conflictsWith?: string[],
-  difficulty: number
+import { now } from "./clock";
+import { config } from "./config";
+import { parseMessage, renderMessage } from "./messageParser";
+import { combineResults, loadRules, Rule } from "./ruleConfig";
+import { estimateDifficulty, forgetRuleResults, recordRuleResults } from "./ruleStats";
+import { isSatisfiable, setExampleCorpus } from "./satisfiability";
+import { getTemplateID, getTemplateRule, rollTemplateRules, ruleTemplates } from "./ruleTemplates";
+import { saveData, SerializedRuleState } from "./saveData";
+import { callSlack, queueSlackCall } from "./slackQueue";
+import { runVote, VoteOption } from "./voting";
+
+// Rules are defined in a config file so they can be changed without editing code
+const rulesPath = process.env.RULES_FILE ?? config.paths.rules;
+const rules: Rule[] = loadRules(rulesPath);
+setExampleCorpus(rules);
+
+// Finds a rule by its ID, which can be a static rule or an instance of a rule template
+function getRule(id: string): Rule | undefined {
+  return rules.find(rule => rule.id === id) ?? getTemplateRule(id);
+}
+
+// Gets the rules a new ruleset can be made from: every static rule, plus a fresh instance of every rule template
+function getCandidateRules(): string[] {
+  return [...rules, ...rollTemplateRules()].map(rule => rule.id);
+}
+
+// Rule adjustment
+
+/** The settings that control how difficult a channel's rulesets are. */
+export type DifficultySettings = {
+  roughDifficulty: number, // The rough difficulty that new rulesets are generated around
+  minFailRatio: number, // If less than this ratio of messages violate the rules, we increase the difficulty
+  maxFailRatio: number // If more than this ratio of messages violate the rules, we decrease the difficulty
 };
 
-const activeRules: Set<string> = new Set();
-
-const rules: Rule[] = [{
-  id: "all-lowercase",
-  name: "Lowercase messages",
-  description: "all messages must be in lowercase. stay calm.",
-  check: (message: string) => message === message.toLowerCase(),
-  difficulty: 1
-}, {
-  id: "all-uppercase",
-  name: "Uppercase messages",
-  description: "ALL MESSAGES MUST BE IN UPPERCASE. SHOUTING IS ENCOURAGED!",
-  check: (message: string) => message === message.toUpperCase(),
-  difficulty: 1
-}, {
-  id: "only-emojis",
-  name: "Only emojis",
-  description: ":rocket: :100: :fire:",
-  check: (message: string) => message.split(" ").every(word => word.startsWith(":") && word.endsWith(":")), // TODO: This isn't a proper check
-  difficulty: 2
-}, {
-  id: "unique-messages",
-  name: "Unique messages",
-  description: "Be original! No messages should be returned by a search in this workspace.",
-  check: async (message: string, app: App) => {
-    const result = await app.client.search.messages({
-      query: message,
-      token: process.env.SLACK_USER_TOKEN,
-      count: 1
-    });
-    return (result.messages?.total ?? 0) === 0;
-  },
-  difficulty: 5
-}, {
-  id: "no-common-words",
-  name: "No common words",
-  description: "Cultivate novelty! Messages exclude English's 1000 commonest vocables.",
-  check: (message: string) => {
-    const words = message.split(/[\s\-.,!?]+/);
-    return words.every(word => !topThousandWords.includes(word.toLowerCase()));
-  },
-  difficulty: 4
-}, {
-  id: "never-repeats-letters",
-  name: "Never repeats letters",
-  description: "No letter should be repeated in a message.",
-  check: (message: string) => {
-    const letters = message.toLowerCase().split("").filter(char => char.match(/[a-z]/i));
-    return new Set(letters).size === letters.length;
-  },
-  difficulty: 5
-}, {
-  id: "every-letter",
-  name: "Every letter",
-  description: "Every letter in the English alphabet should appear at least once in a message.",
-  check: (message: string) => {
-    const letters = message.toLowerCase().split("").filter(char => char.match(/[a-z]/i));
-    return new Set(letters).size === 26;
-  },
-  difficulty: 4
-}, {
-  id: "no-spaces",
-  name: "No spaces",
-  description: "Messages should not contain any spaces.",
-  check: (message: string) => !message.includes(" "),
-  difficulty: 3,
-}, {
-  id: "no-punctuation",
-  name: "No punctuation",
-  description: "Messages should not contain any punctuation.",
-  check: (message: string) => !message.match(/[.,!?:;]/),
-  difficulty: 2
-}];
-
-const conflicts: [string, string][] = [
-  ["all-lowercase", "all-uppercase"],
-  ["only-emojis", "all-lowercase"],
-  ["only-emojis", "all-uppercase"],
-  ["only-emojis", "no-common-words"],
-  ["only-emojis", "never-repeats-letters"],
-  ["only-emojis", "every-letter"],
-  ["only-emojis", "no-spaces"],
-  ["only-emojis", "no-punctuation"],
-  ["never-repeats-letters", "every-letter"],
-  ["no-common-words", "no-spaces"]
-];
-conflicts.forEach(([rule1ID, rule2ID]) => {
-  const rule1 = rules.find(rule => rule.id === rule1ID);
-  const rule2 = rules.find(rule => rule.id === rule2ID);
-  if(!rule1 || !rule2) {
-    console.error(`Rule with ID ${rule1ID} or ${rule2ID} not found when resolving conflicts.`);
-    return;
-  }
+export const defaultDifficultySettings: DifficultySettings = config.defaultDifficulty;
+
+/**
+ * Where a channel is in changing its ruleset. The engine only starts a change while the channel is stable, so changes
+ * happen one at a time: stable, then voting if the channel votes, then announcing, then stable again.
+ */
+type RulesetPhase = "stable" | "voting" | "announcing";
+
+/** The rule engine state for a single game channel. */
+type ChannelRules = {
+  activeRules: Set<string>,
+  /** The rules each message sent under the active ruleset violated, with the message's timestamp if it's known. */
+  violationHistoryForThisRuleset: { ts?: string, violations: Rule[] }[],
+  lastRulesetChange: number,
+  settings: DifficultySettings,
+  /** Whether players vote on the next ruleset instead of the engine picking it alone. */
+  voting: boolean,
+  /** How many rules of each new ruleset are kept secret, for game modes where players work them out. */
+  hiddenRuleCount: number,
+  /** The active rules that are kept secret until a player guesses them. */
+  hiddenRules: Set<string>,
+  phase: RulesetPhase,
+  /** The announcements of ruleset changes, chained so each one starts after the last has finished. */
+  announcements: Promise<void>,
+  /** How many announcements are queued or in progress. */
+  pendingAnnouncements: number
+};
+
+const channelRules: Map<string, ChannelRules> = new Map();
+
+// Stores a channel's rule engine state in the save data so it survives restarts
+function saveRuleState(channelID: string, state: ChannelRules): void {
+  saveData.setRuleState(channelID, {
+    activeRules: Array.from(state.activeRules),
+    violationHistory: state.violationHistoryForThisRuleset.map(entry => entry.violations.map(rule => rule.id)),
+    lastRulesetChange: state.lastRulesetChange,
+    hiddenRules: Array.from(state.hiddenRules)
+  });
+}
 
-  rule1.conflictsWith ??= [];
-  rule1.conflictsWith.push(rule2ID);
-  rule2.conflictsWith ??= [];
-  rule2.conflictsWith.push(rule1ID);
-});
+// Restores a channel's rule engine state from the save data, ignoring rules that no longer exist
+function loadRuleState(saved: SerializedRuleState, settings: DifficultySettings): ChannelRules {
+  const activeRules = new Set(saved.activeRules.filter(id => getRule(id) !== undefined));
+  return {
+    activeRules,
+    violationHistoryForThisRuleset: saved.violationHistory.map(ids => ({
+      violations: ids.map(getRule).filter(rule => rule !== undefined)
+    })),
+    lastRulesetChange: saved.lastRulesetChange,
+    settings,
+    voting: false,
+    hiddenRuleCount: 0,
+    hiddenRules: new Set((saved.hiddenRules ?? []).filter(id => activeRules.has(id))),
+    phase: "stable",
+    announcements: Promise.resolve(),
+    pendingAnnouncements: 0
+  };
+}
 
+/** Describes a ruleset replacing the previous one in a channel. */
+export type RulesetChange = {
+  channelID: string,
+  time: number,
+  reason: string,
+  ruleset: string[],
+  difficulty: number,
+  /** How the previous ruleset went, or undefined if this is the first ruleset in the channel. */
+  previous?: {
+    ruleset: string[],
+    messages: number,
+    failRatio: number
+  }
+};
 
-// Rule adjustment
+const rulesetChangeListeners: ((change: RulesetChange) => void)[] = [];
 
-let violationHistoryForThisRuleset: { violations: Rule[] }[] = [];
-let lastRulesetChange = Date.now();
-function getFailRatio(): number {
-  const messagesViolatingRules = violationHistoryForThisRuleset.filter(ruleset => ruleset.violations.length > 0).length;
-  return messagesViolatingRules / violationHistoryForThisRuleset.length;
+// Registers a function to call whenever a channel's ruleset changes
+export function onRulesetChange(listener: (change: RulesetChange) => void): void {
+  rulesetChangeListeners.push(listener);
 }
 
-const minimumTimeBetweenChanges = 1000 * 60 * 5; // 5 minutes
-const maximumTimeBetweenChanges = 1000 * 60 * 60 * 5; // 5 hours
-const minFailRatio = 0.1; // If less than this ratio of messages violate the rules, we increase the difficulty
-const maxFailRatio = 0.5; // If more than this ratio of messages violate the rules, we decrease the difficulty
-const minimumSampleSize = 10; // We need at least this many messages to make a decision
-const maximumMessagesUntilChange = 100; // We will change the ruleset after this many messages, regardless of the fail ratio
-const changeChance = 0.3; // The chance of changing the ruleset based on the fail ratio after the maximum number of messages has been reached
-const completeChangeChance = 0.05; // The chance of the ruleset being completely replaced after the maximum number of messages has been reached
-const initialRoughDifficulty = 6; // The initial rough difficulty of the ruleset
-const mutationIterations = 15; // The number of times we randomly mutate the current ruleset before evaluating the change
-const mutationAmount = 3; // The number of rules we randomly change in the ruleset when mutating
+function getFailRatio(state: ChannelRules): number {
+  const messagesViolatingRules = state.violationHistoryForThisRuleset.filter(ruleset => ruleset.violations.length > 0).length;
+  return messagesViolatingRules / state.violationHistoryForThisRuleset.length;
+}
+
+/** Tuning values for how the rules adapt, shared by every channel. The simulator overrides these to try out other values. */
+export const engineSettings = config.engine;
+
+// Checks whether two rules can't be active together, in either direction
+function rulesConflict(rule1: Rule, rule2: Rule): boolean {
+  // Two instances of the same template would only contradict or duplicate each other
+  const template1 = getTemplateID(rule1.id);
+  if(template1 !== undefined && template1 === getTemplateID(rule2.id)) return true;
+
+  // A rule that implies another makes it redundant
+  if((rule1.implies?.includes(rule2.id) ?? false) || (rule2.implies?.includes(rule1.id) ?? false)) return true;
+
+  return (rule1.conflictsWith?.some(conflict => conflict.rule === rule2.id) ?? false)
+    || (rule2.conflictsWith?.some(conflict => conflict.rule === rule1.id) ?? false);
+}
 
-function isValidRuleset(ruleset: Set<string>): boolean {
-  const conflicts = rules.filter(rule => ruleset.has(rule.id)).flatMap(rule => rule.conflictsWith ?? []);
-  return !conflicts.some(conflict => ruleset.has(conflict));
+// A ruleset is valid if none of its rules conflict and some example message passes all of them
+export function isValidRuleset(ruleset: Set<string>): boolean {
+  const rulesetRules = Array.from(ruleset).map(getRule);
+  if(rulesetRules.some(rule => rule === undefined)) return false;
+  if(rulesetRules.some((rule1, i) => rulesetRules.slice(i + 1).some(rule2 => rulesConflict(rule1!, rule2!)))) return false;
+  return isSatisfiable(rulesetRules as Rule[]);
 }
 
-/// Randomly varies a ruleset into another valid ruleset
-function mutateRuleset(currentRuleset: Set<string>, amount: number): Set<string> {
+// How many random changes are tried for each step of a mutation before giving up on it
+const maxMutationAttempts = 100;
+
+/// Randomly varies a ruleset into another valid ruleset, or returns the current ruleset if no valid one is found
+function mutateRuleset(currentRuleset: Set<string>, amount: number, candidates: string[]): Set<string> {
+  // Rules in the current ruleset can always be removed, even if they aren't candidates anymore
+  const changeableRules = Array.from(new Set([...candidates, ...currentRuleset]));
   let newRuleset = new Set(currentRuleset);
   for(let i = 0; i < amount; i++) {
-    let oldRuleset = new Set(newRuleset);
+    const oldRuleset = newRuleset;
+    let attempts = 0;
     do {
+      if(attempts++ >= maxMutationAttempts) return currentRuleset;
       newRuleset = new Set(oldRuleset);
-      const ruleToChange = rules[Math.floor(Math.random() * rules.length)];
-      if(newRuleset.has(ruleToChange.id)) {
-        newRuleset.delete(ruleToChange.id);
+      const ruleToChange = changeableRules[Math.floor(Math.random() * changeableRules.length)];
+      if(newRuleset.has(ruleToChange)) {
+        newRuleset.delete(ruleToChange);
       } else {
-        newRuleset.add(ruleToChange.id);
+        newRuleset.add(ruleToChange);
       }
     } while(!isValidRuleset(newRuleset));
   }
@@ -160,7 +174,8 @@ function makeEasierRuleset(currentRuleset: Set<string>): {
   success: boolean,
   ruleset: Set<string>
 } {
-  const mutatedRulesets = Array.from({ length: mutationIterations }, () => mutateRuleset(currentRuleset, mutationAmount));
+  const candidates = getCandidateRules();
+  const mutatedRulesets = Array.from({ length: engineSettings.mutationIterations }, () => mutateRuleset(currentRuleset, engineSettings.mutationAmount, candidates));
   // Pick the ruleset with the closest difficulty lower than the current one, and return the current ruleset if none are found
   const closestRuleset = mutatedRulesets
     .filter(ruleset => calculateDifficulty(ruleset) < calculateDifficulty(currentRuleset))
@@ -175,7 +190,8 @@ function makeHarderRuleset(currentRuleset: Set<string>): {
   success: boolean,
   ruleset: Set<string>
 } {
-  const mutatedRulesets = Array.from({ length: mutationIterations }, () => mutateRuleset(currentRuleset, mutationAmount));
+  const candidates = getCandidateRules();
+  const mutatedRulesets = Array.from({ length: engineSettings.mutationIterations }, () => mutateRuleset(currentRuleset, engineSettings.mutationAmount, candidates));
   // Pick the ruleset with the closest difficulty higher than the current one, and return the current ruleset if none are found
   const closestRuleset = mutatedRulesets
     .filter(ruleset => calculateDifficulty(ruleset) > calculateDifficulty(currentRuleset))
@@ -186,25 +202,24 @@ function makeHarderRuleset(currentRuleset: Set<string>): {
 }
 
 // Gets all the rules that can be added to the current ruleset without violating any conflicts
-function getAdditionalValidRules(currentRuleset: Set<string>): Set<string> {
+function getAdditionalValidRules(currentRuleset: Set<string>, candidates: string[]): Set<string> {
   const validRules = new Set(
-    rules
-      .filter(rule => !currentRuleset.has(rule.id) && isValidRuleset(new Set([...currentRuleset, rule.id])))
-      .map(rule => rule.id)
+    candidates.filter(id => !currentRuleset.has(id) && isValidRuleset(new Set([...currentRuleset, id])))
   );
   return validRules;
 }
 
-// Calculates the difficulty of a ruleset
+// Calculates the difficulty of a ruleset, learned from how often its rules have been violated
 function calculateDifficulty(ruleset: Set<string>): number {
-  return Array.from(ruleset).map(id => rules.find(rule => rule.id === id)!.difficulty).reduce((acc, val) => (acc ?? 0) + val, 0);
+  return estimateDifficulty(ruleset, id => getRule(id)?.difficulty ?? 0);
 }
 
 // Generates a random valid ruleset with a rough difficulty
 function randomValidRuleset(roughDifficulty: number, attempt = 0): Set<string> {
+  const candidates = getCandidateRules();
   let ruleset = new Set<string>();
   while(calculateDifficulty(ruleset) < roughDifficulty) {
-    const validRules = getAdditionalValidRules(ruleset);
+    const validRules = getAdditionalValidRules(ruleset, candidates);
     if(validRules.size === 0) break;
     const ruleToAdd = Array.from(validRules)[Math.floor(Math.random() * validRules.size)];
     ruleset.add(ruleToAdd);
@@ -216,33 +231,95 @@ function randomValidRuleset(roughDifficulty: number, attempt = 0): Set<string> {
   return ruleset;
 }
 
-async function updateRules(newRuleset: Set<string>, reason: string, app: App): Promise<void> {
-  newRuleset = new Set(newRuleset); // If newRuleset is activeRules, it would be a reference to the same object, which would cause issues
-  activeRules.clear();
-  newRuleset.forEach(rule => activeRules.add(rule));
-  violationHistoryForThisRuleset = [];
-  lastRulesetChange = Date.now();
-
-  console.log('\x1b[33m', `Ruleset updated: ${reason}`, '\x1b[0m');
-  console.log('\x1b[33m', `New ruleset: ${Array.from(activeRules).join(", ")}`, '\x1b[0m');
+// Picks which rules of a new ruleset to keep secret. Nothing random happens when none are, so seeded simulations
+// aren't affected
+function pickHiddenRules(ruleset: Set<string>, count: number): Set<string> {
+  const candidates = Array.from(ruleset);
+  const hiddenRules = new Set<string>();
+  while(hiddenRules.size < Math.min(count, candidates.length)) {
+    hiddenRules.add(candidates[Math.floor(Math.random() * candidates.length)]);
+  }
+  return hiddenRules;
+}
 
-  if(!process.env.CHANNEL_ID) {
-    console.error("CHANNEL_ID not set in environment variables.");
+// Applies a new ruleset right away, and queues its announcement after any that are still in progress
+function updateRules(channelID: string, newRuleset: Set<string>, reason: string, app: App): void {
+  const state = channelRules.get(channelID);
+  if(!state) {
+    console.error(`No rules found for channel ${channelID}.`);
     return;
   }
 
-  if(process.env.QUIET === "full") return;
-  
-  const rulesMessage = getRulesMessage();
-  const message = `${reason}\n\n${rulesMessage}`;
-  if(process.env.QUIET === undefined) app.client.chat.postMessage({
-    channel: process.env.CHANNEL_ID,
-    text: message
-  });
+  const previous = state.activeRules.size > 0 || state.violationHistoryForThisRuleset.length > 0 ? {
+    ruleset: Array.from(state.activeRules),
+    messages: state.violationHistoryForThisRuleset.length,
+    failRatio: getFailRatio(state)
+  } : undefined;
 
-  const channelInfo = await app.client.conversations.info({
-    channel: process.env.CHANNEL_ID
-  });
+  newRuleset = new Set(newRuleset); // If newRuleset is activeRules, it would be a reference to the same object, which would cause issues
+  state.activeRules.clear();
+  newRuleset.forEach(rule => state.activeRules.add(rule));
+  state.violationHistoryForThisRuleset = [];
+  state.lastRulesetChange = now();
+  state.hiddenRules = pickHiddenRules(state.activeRules, state.hiddenRuleCount);
+  saveRuleState(channelID, state);
+
+  const change: RulesetChange = {
+    channelID,
+    time: state.lastRulesetChange,
+    reason,
+    ruleset: Array.from(state.activeRules),
+    difficulty: calculateDifficulty(state.activeRules),
+    previous
+  };
+  rulesetChangeListeners.forEach(listener => listener(change));
+
+  console.log('\x1b[33m', `Ruleset updated in ${channelID}: ${reason}`, '\x1b[0m');
+  console.log('\x1b[33m', `New ruleset: ${Array.from(state.activeRules).join(", ")}`, '\x1b[0m');
+
+  if(config.announcements === "none") return;
+
+  // The message is written now, so each announcement shows its own ruleset even if another change follows it
+  const rulesMessage = getRulesMessage(channelID);
+  if(state.phase === "stable") state.phase = "announcing";
+  state.pendingAnnouncements++;
+  state.announcements = state.announcements
+    .then(() => announceRules(channelID, state, reason, rulesMessage, app))
+    .catch(error => console.error(`Couldn't announce the new ruleset in ${channelID}:`, error))
+    .finally(() => {
+      state.pendingAnnouncements--;
+      if(state.pendingAnnouncements === 0 && state.phase === "announcing") state.phase = "stable";
+    });
+}
+
+async function announceRules(channelID: string, state: ChannelRules, reason: string, rulesMessage: string, app: App): Promise<void> {
+  if(channelRules.get(channelID) !== state) return; // The game was stopped in the channel
+  if(config.announcements === "all") {
+    await queueSlackCall(channelID, `post the new ruleset in ${channelID}`, () => app.client.chat.postMessage({
+      channel: channelID,
+      text: `${reason}\n\n${rulesMessage}`
+    })).catch(error => console.error(`Couldn't post the new ruleset in ${channelID}:`, error)); // The canvas still needs updating
+  }
+
+  // The canvas only needs to show the latest ruleset, which a later announcement will write
+  if(state.pendingAnnouncements > 1) return;
+  await updateCanvas(channelID, rulesMessage, app);
+}
+
+// Updates the canvas after any announcements still in progress, for changes to how the ruleset is shown
+function queueCanvasUpdate(channelID: string, state: ChannelRules, app: App): void {
+  if(config.announcements === "none") return;
+  const rulesMessage = getRulesMessage(channelID);
+  state.announcements = state.announcements
+    .then(() => channelRules.get(channelID) === state ? updateCanvas(channelID, rulesMessage, app) : undefined)
+    .catch(error => console.error(`Couldn't update the canvas in ${channelID}:`, error));
+}
+
+// Shows the ruleset in the channel's canvas, creating the canvas or its rules section if needed
+async function updateCanvas(channelID: string, rulesMessage: string, app: App): Promise<void> {
+  const channelInfo = await callSlack(`get the info of ${channelID}`, () => app.client.conversations.info({
+    channel: channelID
+  }));
   if(channelInfo.ok !== true) {
     console.error("Couldn't get channel info.");
     return;
@@ -266,10 +343,10 @@ async function updateRules(newRuleset: Set<string>, reason: string, app: App): P
   
   if(canvasData === undefined) {
     console.log("\x1b[33m", "No channel canvas is present; creating a new one.", "\x1b[0m");
-    await app.client.conversations.canvases.create({
-      channel_id: process.env.CHANNEL_ID,
+    await queueSlackCall(channelID, `create a canvas in ${channelID}`, () => app.client.conversations.canvases.create({
+      channel_id: channelID,
       document_content: content
-    });
+    }));
 
     console.log("\x1b[33m", "Canvas created.", "\x1b[0m");
   } else {
@@ -281,12 +358,12 @@ async function updateRules(newRuleset: Set<string>, reason: string, app: App): P
 
     console.log("\x1b[33m", `Channel canvas with ID ${canvas} is present; updating it.`, "\x1b[0m");
 
-    const sections = await app.client.canvases.sections.lookup({
+    const sections = await callSlack(`find the rules section of canvas ${canvas}`, () => app.client.canvases.sections.lookup({
       canvas_id: canvas,
       criteria: {
         contains_text: "rules are currently active" // TODO: This is a pretty hacky way to find the rules section
       }
-    });
+    }));
 
     if(sections.ok !== true) {
       console.error("Couldn't get canvas sections.");
@@ -297,7 +374,7 @@ async function updateRules(newRuleset: Set<string>, reason: string, app: App): P
     if(existingSectionID === undefined) {
       // Couldn't find the section; creating a new one
       console.log("\x1b[33m", "No section found; creating a new one.", "\x1b[0m");
-      await app.client.canvases.edit({
+      await queueSlackCall(channelID, `add a rules section to canvas ${canvas}`, () => app.client.canvases.edit({
         changes: [
           {
             operation: "insert_at_end",
@@ -305,13 +382,13 @@ async function updateRules(newRuleset: Set<string>, reason: string, app: App): P
           }
         ],
         canvas_id: canvas
-      });
+      }));
       console.log("\x1b[33m", "Section created.", "\x1b[0m");
       return;
     }
 
     console.log("\x1b[33m", `Section found with ID ${existingSectionID}; updating it.`, "\x1b[0m");
-    await app.client.canvases.edit({
+    await queueSlackCall(channelID, `update the rules section of canvas ${canvas}`, () => app.client.canvases.edit({
       changes: [
         {
           operation: "replace",
@@ -320,90 +397,305 @@ async function updateRules(newRuleset: Set<string>, reason: string, app: App): P
         }
       ],
       canvas_id: canvas
-    });
+    }));
 
     console.log("\x1b[33m", "Canvas updated.", "\x1b[0m");
   }
 }
 
-// Determines if the ruleset should be changed
-export function evaluateChange(app: App) {
-  const timeSinceLastChange = Date.now() - lastRulesetChange;
-  if(timeSinceLastChange < minimumTimeBetweenChanges) return; // We need to wait longer before making a decision
-  if(timeSinceLastChange > maximumTimeBetweenChanges) {
-    const newRuleset = randomValidRuleset((initialRoughDifficulty + calculateDifficulty(activeRules)) / 2);
-    updateRules(newRuleset, "The ruleset has been changed entirely, since it has been a long time since it was last changed.", app);
+// Applies a new ruleset, or if the channel votes on changes, lets players choose between it and a few alternatives
+function changeRules(channelID: string, newRuleset: Set<string>, reason: string, app: App, generateAlternative: () => Set<string> | undefined): void {
+  const state = channelRules.get(channelID);
+  if(!state) return;
+  // Votes are posted to the channel, so they can't happen while announcements are off. They also list every rule of
+  // each option, which would give away the secret rules in Deduction.
+  if(!state.voting || config.announcements !== "all" || state.hiddenRuleCount > 0) {
+    updateRules(channelID, newRuleset, reason, app);
+    return;
+  }
+
+  const key = (ruleset: Set<string>) => Array.from(ruleset).sort().join(" ");
+  const seen = new Set([key(state.activeRules), key(newRuleset)]);
+  const options = [newRuleset];
+  for(let i = 0; i < engineSettings.mutationIterations && options.length < engineSettings.voteOptions; i++) {
+    const alternative = generateAlternative();
+    if(alternative === undefined || seen.has(key(alternative))) continue;
+    seen.add(key(alternative));
+    options.push(alternative);
+  }
+  if(options.length < 2) {
+    updateRules(channelID, newRuleset, reason, app);
+    return;
+  }
+
+  state.phase = "voting";
+  const lastRulesetChange = state.lastRulesetChange;
+  const voteOptions: VoteOption[] = options.map(ruleset => ({
+    ruleset,
+    ruleNames: Array.from(ruleset).map(id => getRule(id)?.name ?? id),
+    difficulty: calculateDifficulty(ruleset)
+  }));
+  runVote(channelID, voteOptions, reason, engineSettings.voteDuration, app).then(winner => {
+    const current = channelRules.get(channelID);
+    if(current !== state) return; // The game was stopped in the channel while voting
+    state.phase = state.pendingAnnouncements > 0 ? "announcing" : "stable";
+    // An admin may have set the ruleset by hand while the vote was open
+    if(state.lastRulesetChange !== lastRulesetChange) return;
+    updateRules(channelID, options[winner], `${reason} Option ${winner + 1} won the vote.`, app);
+  });
+}
+
+// Determines if the ruleset should be changed. Forcing it skips the waiting and chance, so the ruleset always changes.
+export function evaluateChange(channelID: string, app: App, force = false) {
+  const state = channelRules.get(channelID);
+  if(!state) return;
+  if(state.phase !== "stable") return; // Players are still voting, or the last change is still being announced
+  const { activeRules, violationHistoryForThisRuleset, settings } = state;
+  const targetDifficulty = () => (settings.roughDifficulty + calculateDifficulty(activeRules)) / 2;
+  const randomAlternative = () => randomValidRuleset(targetDifficulty());
+
+  const timeSinceLastChange = now() - state.lastRulesetChange;
+  if(!force && timeSinceLastChange < engineSettings.minimumTimeBetweenChanges) return; // We need to wait longer before making a decision
+  if(timeSinceLastChange > engineSettings.maximumTimeBetweenChanges) {
+    const newRuleset = randomValidRuleset(targetDifficulty());
+    changeRules(channelID, newRuleset, "The ruleset has been changed entirely, since it has been a long time since it was last changed.", app, randomAlternative);
     return;
   }
 
-  if(violationHistoryForThisRuleset.length < minimumSampleSize) return; // We need more data to make a decision
-  if(violationHistoryForThisRuleset.length > maximumMessagesUntilChange) {
-    const newRuleset = randomValidRuleset((initialRoughDifficulty + calculateDifficulty(activeRules)) / 2);
-    updateRules(newRuleset, "The ruleset has been changed entirely, since there have been a lot of messages since it was last changed.", app);
+  if(!force && violationHistoryForThisRuleset.length < engineSettings.minimumSampleSize) return; // We need more data to make a decision
+  if(violationHistoryForThisRuleset.length > engineSettings.maximumMessagesUntilChange) {
+    const newRuleset = randomValidRuleset(targetDifficulty());
+    changeRules(channelID, newRuleset, "The ruleset has been changed entirely, since there have been a lot of messages since it was last changed.", app, randomAlternative);
     return;
   }
 
-  if(Math.random() < changeChance) {
-    const failRatio = getFailRatio();
-    if(failRatio > maxFailRatio) {
+  if(force || Math.random() < engineSettings.changeChance) {
+    const failRatio = getFailRatio(state);
+    if(failRatio > settings.maxFailRatio) {
       const newRuleset = makeEasierRuleset(activeRules);
       if(!newRuleset.success) {
-        const newRuleset = randomValidRuleset((initialRoughDifficulty + calculateDifficulty(activeRules)) / 2);
-        updateRules(newRuleset, "The fail ratio is high, but the ruleset couldn't be made easier, so we're changing it entirely.", app);
+        const newRuleset = randomValidRuleset(targetDifficulty());
+        changeRules(channelID, newRuleset, "The fail ratio is high, but the ruleset couldn't be made easier, so we're changing it entirely.", app, randomAlternative);
         return;
       }
       
-      updateRules(newRuleset.ruleset, "The ruleset has been made easier since the fail ratio is high.", app);
+      changeRules(channelID, newRuleset.ruleset, "The ruleset has been made easier since the fail ratio is high.", app, () => {
+        const alternative = makeEasierRuleset(activeRules);
+        return alternative.success ? alternative.ruleset : undefined;
+      });
       return;
-    } else if(failRatio < minFailRatio) {
+    } else if(failRatio < settings.minFailRatio) {
       const newRuleset = makeHarderRuleset(activeRules);
       if(!newRuleset.success) {
-        const newRuleset = randomValidRuleset((initialRoughDifficulty + calculateDifficulty(activeRules)) / 2);
-        updateRules(newRuleset, "The fail ratio is low, but the ruleset couldn't be made harder, so we're changing it entirely.", app);
+        const newRuleset = randomValidRuleset(targetDifficulty());
+        changeRules(channelID, newRuleset, "The fail ratio is low, but the ruleset couldn't be made harder, so we're changing it entirely.", app, randomAlternative);
         return;
       }
 
-      updateRules(newRuleset.ruleset, "The ruleset has been made harder since the fail ratio is low.", app);
+      changeRules(channelID, newRuleset.ruleset, "The ruleset has been made harder since the fail ratio is low.", app, () => {
+        const alternative = makeHarderRuleset(activeRules);
+        return alternative.success ? alternative.ruleset : undefined;
+      });
       return;
     }
   }
 
-  if(Math.random() < completeChangeChance) {
-    const newRuleset = randomValidRuleset((initialRoughDifficulty + calculateDifficulty(activeRules)) / 2);
-    updateRules(newRuleset, "The ruleset has been changed entirely by chance.", app);
+  if(force || Math.random() < engineSettings.completeChangeChance) {
+    const newRuleset = randomValidRuleset(targetDifficulty());
+    changeRules(channelID, newRuleset, force ? "The ruleset has been changed entirely by an admin." : "The ruleset has been changed entirely by chance.", app, randomAlternative);
     return;
   }
 
   // No change needed
 }
 
-export function addToViolationHistory(violations: Rule[]): void {
-  violationHistoryForThisRuleset.push({ violations });
+export function addToViolationHistory(channelID: string, violations: Rule[], ts?: string): void {
+  const state = channelRules.get(channelID);
+  if(!state) return;
+  // Rules that only apply to some players, like team rules, don't count toward how the shared ruleset adapts
+  violations = violations.filter(rule => state.activeRules.has(rule.id));
+  state.violationHistoryForThisRuleset.push({ ts, violations });
+  saveRuleState(channelID, state);
+  recordRuleResults(Array.from(state.activeRules), violations.map(rule => rule.id));
+}
+
+// Replaces the violations of an edited message in the history, or removes a deleted one. Messages sent under an
+// earlier ruleset are left alone, since that ruleset's history is gone.
+export function correctViolationHistory(channelID: string, ts: string, violations: Rule[] | undefined): void {
+  const state = channelRules.get(channelID);
+  if(!state) return;
+  const index = state.violationHistoryForThisRuleset.findIndex(entry => entry.ts === ts);
+  if(index === -1) return;
+
+  const activeRuleIDs = Array.from(state.activeRules);
+  violations = violations?.filter(rule => state.activeRules.has(rule.id));
+  forgetRuleResults(activeRuleIDs, state.violationHistoryForThisRuleset[index].violations.map(rule => rule.id));
+  if(violations === undefined) {
+    state.violationHistoryForThisRuleset.splice(index, 1);
+  } else {
+    state.violationHistoryForThisRuleset[index] = { ts, violations };
+    recordRuleResults(activeRuleIDs, violations.map(rule => rule.id));
+  }
+  saveRuleState(channelID, state);
 }
 
 // Rule checking and other user-facing stuff
 
-export async function getViolations(message: string, app: App): Promise<Rule[]> {
-  const violationPromises: Promise<Rule | undefined>[] = rules.filter(rule => activeRules.has(rule.id)).map(rule => {
-    const result = rule.check(message, app);
-    if(result instanceof Promise) return result.then(result => result ? undefined : rule);
-    return new Promise(resolve => resolve(result ? undefined : rule));
+/** A rule a message broke, and what in the message broke it. */
+export type Violation = {
+  rule: Rule,
+  problems: string[]
+};
+
+// Checks a message against the channel's active rules, or against an earlier ruleset when re-checking an edited message
+export async function getViolations(channelID: string, message: string, app: App, ruleset?: string[]): Promise<Violation[]> {
+  const activeRules = ruleset ?? channelRules.get(channelID)?.activeRules ?? new Set();
+  const tokens = parseMessage(message);
+  const activeRuleList = Array.from(activeRules).map(getRule).filter(rule => rule !== undefined);
+  const violationPromises: Promise<Violation | undefined>[] = activeRuleList.map(async rule => {
+    const text = renderMessage(tokens, rule.counts);
+    const results = [rule.check(text, tokens), ...(rule.slackCheck ? [await rule.slackCheck(text, app)] : [])];
+    const result = combineResults(results);
+    return result.passed ? undefined : { rule, problems: result.problems };
   });
   return (await Promise.all(violationPromises)).filter(violation => violation !== undefined);
 }
 
-export function initializeRules(app: App): void {
-  updateRules(randomValidRuleset(initialRoughDifficulty), "An initial ruleset has been created.", app);
+export function getRulesetStats(channelID: string): { ruleset: string[], difficulty: number, messages: number, failRatio: number } | undefined {
+  const state = channelRules.get(channelID);
+  if(!state) return undefined;
+  return {
+    ruleset: Array.from(state.activeRules),
+    difficulty: calculateDifficulty(state.activeRules),
+    messages: state.violationHistoryForThisRuleset.length,
+    failRatio: getFailRatio(state)
+  };
+}
+
+// Whether any message sent under the channel's active ruleset has followed it
+export function rulesetHasBeenFollowed(channelID: string): boolean {
+  return channelRules.get(channelID)?.violationHistoryForThisRuleset.some(entry => entry.violations.length === 0) ?? false;
+}
+
+export function getActiveRulesetDifficulty(channelID: string): number {
+  return calculateDifficulty(channelRules.get(channelID)?.activeRules ?? new Set());
+}
+
+// Restores the channel's saved ruleset if there is one, and otherwise creates a new one
+export function initializeRules(channelID: string, settings: DifficultySettings, app: App): void {
+  const saved = saveData.getRuleState(channelID);
+  if(saved) {
+    const state = loadRuleState(saved, settings);
+    if(state.activeRules.size > 0 && isValidRuleset(state.activeRules)) {
+      channelRules.set(channelID, state);
+      console.log('\x1b[33m', `Restored ruleset in ${channelID}: ${Array.from(state.activeRules).join(", ")}`, '\x1b[0m');
+      return;
+    }
+    console.error(`Saved ruleset for ${channelID} is no longer valid; creating a new one.`);
+  }
+
+  channelRules.set(channelID, {
+    activeRules: new Set(),
+    violationHistoryForThisRuleset: [],
+    lastRulesetChange: now(),
+    settings,
+    voting: false,
+    hiddenRuleCount: 0,
+    hiddenRules: new Set(),
+    phase: "stable",
+    announcements: Promise.resolve(),
+    pendingAnnouncements: 0
+  });
+  updateRules(channelID, randomValidRuleset(settings.roughDifficulty), "An initial ruleset has been created.", app);
+}
+
+// Checks whether a rule ID refers to a static rule or a valid instance of a rule template
+export function ruleExists(id: string): boolean {
+  return getRule(id) !== undefined;
+}
+
+// Gets the name of a rule, or its ID if the rule no longer exists
+export function getRuleName(id: string): string {
+  return getRule(id)?.name ?? id;
+}
+
+// Replaces a channel's ruleset by hand, which should already have been checked with isValidRuleset
+export function setRuleset(channelID: string, ruleset: Set<string>, reason: string, app: App): boolean {
+  if(!channelRules.has(channelID)) return false;
+  updateRules(channelID, ruleset, reason, app);
+  return true;
+}
+
+export function setDifficultySettings(channelID: string, settings: DifficultySettings): void {
+  const state = channelRules.get(channelID);
+  if(state) state.settings = settings;
+}
+
+// Sets whether players vote on the channel's next ruleset
+export function setVoting(channelID: string, voting: boolean): void {
+  const state = channelRules.get(channelID);
+  if(state) state.voting = voting;
+}
+
+// Sets how many rules of each new ruleset are kept secret, starting with the next ruleset since the current one has
+// already been announced. Turning it off reveals any rules that are still secret.
+export function setHiddenRuleCount(channelID: string, count: number, app: App): void {
+  const state = channelRules.get(channelID);
+  if(!state) return;
+  state.hiddenRuleCount = count;
+  if(count > 0 || state.hiddenRules.size === 0) return;
+  state.hiddenRules.clear();
+  saveRuleState(channelID, state);
+  queueCanvasUpdate(channelID, state, app);
+}
+
+// Gets the active rules in a channel that are still secret
+export function getHiddenRules(channelID: string): string[] {
+  return Array.from(channelRules.get(channelID)?.hiddenRules ?? []);
+}
+
+// Stops keeping a rule secret once it has been guessed
+export function revealRule(channelID: string, ruleID: string, app: App): boolean {
+  const state = channelRules.get(channelID);
+  if(!state?.hiddenRules.delete(ruleID)) return false;
+  saveRuleState(channelID, state);
+  queueCanvasUpdate(channelID, state, app);
+  return true;
+}
+
+// Resolves once every ruleset change announced in a channel so far has been posted
+export function waitForAnnouncements(channelID: string): Promise<void> {
+  return channelRules.get(channelID)?.announcements ?? Promise.resolve();
+}
+
+export function removeRules(channelID: string): void {
+  channelRules.delete(channelID);
 }
 
 
-export function getRulesMessage(): string {
-  let message = `${activeRules.size}/${rules.length} rules are currently active:\n\n`;
+export function getRulesMessage(channelID: string): string {
+  const state = channelRules.get(channelID);
+  if(!state) return "The game isn't running in this channel.";
+  const { activeRules, hiddenRules } = state;
+  const isShown = (id: string) => activeRules.has(id) && !hiddenRules.has(id);
+
+  // Templates only show up when one of their instances is active, since their text depends on the parameters
+  const activeCount = `${activeRules.size}/${rules.length + ruleTemplates.length} rules are currently active`;
+  // Any rule that isn't shown as active could be a secret one, so none of them are marked as inactive
+  const secrets = hiddenRules.size === 1
+    ? "1 of them is secret: it could be any rule marked :grey_question:, or one that isn't listed. Work it out"
+    : `${hiddenRules.size} of them are secret: they could be any rules marked :grey_question:, or ones that aren't listed. Work them out`;
+  let message = hiddenRules.size === 0
+    ? `${activeCount}:\n\n`
+    : `${activeCount}, and ${secrets} from which messages get :tw_white_check_mark: or :x:, then guess with \`/chameleon-guess\`.\n\n`;
   rules.forEach(rule => {
-    const emoji = activeRules.has(rule.id) ? ":tw_white_check_mark:" : ":tw_x:";
+    const emoji = isShown(rule.id) ? ":tw_white_check_mark:" : hiddenRules.size > 0 ? ":grey_question:" : ":tw_x:";
     message += `${emoji} ${rule.name}: ${rule.description}\n`;
   });
-  const difficulty = calculateDifficulty(activeRules);
+  Array.from(activeRules).map(id => getTemplateID(id) !== undefined && isShown(id) ? getRule(id) : undefined).forEach(rule => {
+    if(rule) message += `:tw_white_check_mark: ${rule.name}: ${rule.description}\n`;
+  });
+  const difficulty = Math.round(calculateDifficulty(activeRules));
   message += `\nExpected difficulty: ${difficulty} ${":tw_star:".repeat(difficulty)}`;
   return message;
 }
\ No newline at end of file
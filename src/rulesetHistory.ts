@@ -0,0 +1,118 @@
+import * as fsPromises from "fs/promises";
+import { config } from "./config";
+import { getRulesetStats, RulesetChange } from "./rules";
+import { parseJSONLines } from "./storage";
+
+/**
+ * A ruleset that was active in a channel, and how it went.
+ */
+export type RulesetHistoryEntry = {
+    channelID: string;
+    ruleset: string[];
+    /** The ruleset's estimated difficulty when it started. */
+    difficulty: number;
+    /** When the ruleset started, in milliseconds since the Unix epoch. */
+    startedAt: number;
+    /** When the ruleset was replaced, or undefined if it's still active. */
+    endedAt?: number;
+    /** Why the ruleset replaced the one before it. */
+    reason: string;
+    /** Why the ruleset was replaced, or undefined if it's still active. */
+    endReason?: string;
+    messages: number;
+    /** The ratio of messages that broke a rule, so far if the ruleset is still active. NaN if there were no messages. */
+    failRatio: number;
+};
+
+// Every ruleset change is appended as one JSON object per line, like the audit log. A change also says how the
+// ruleset it replaced went, so the entries are put together when the history is read.
+const rulesetHistoryPath = process.env.RULESET_HISTORY_PATH ?? config.paths.rulesetHistory;
+
+/**
+ * Appends a ruleset change to the history.
+ * @param change
+ */
+export async function recordRulesetChange(change: RulesetChange): Promise<void> {
+    try {
+        await fsPromises.appendFile(rulesetHistoryPath, JSON.stringify(change) + "\n");
+    } catch {
+        console.error("Failed to write to the ruleset history.");
+    }
+}
+
+/**
+ * Gets every recorded ruleset, oldest first.
+ * @param channelID Only gets the rulesets of this channel, if given.
+ * @returns
+ */
+export async function getRulesetHistory(channelID?: string): Promise<RulesetHistoryEntry[]> {
+    let content: string;
+    try {
+        content = await fsPromises.readFile(rulesetHistoryPath, "utf-8");
+    } catch {
+        return [];
+    }
+    const changes: RulesetChange[] = parseJSONLines(content, rulesetHistoryPath);
+
+    const entries: RulesetHistoryEntry[] = [];
+    const activeEntries: Map<string, RulesetHistoryEntry> = new Map();
+    for(const change of changes) {
+        if(channelID !== undefined && change.channelID !== channelID) continue;
+
+        // A change can replace a ruleset from before the history was kept, which is left out since its start is unknown
+        const previousEntry = activeEntries.get(change.channelID);
+        if(previousEntry !== undefined) {
+            previousEntry.endedAt = change.time;
+            previousEntry.endReason = change.reason;
+            previousEntry.messages = change.previous?.messages ?? 0;
+            previousEntry.failRatio = change.previous?.failRatio ?? NaN;
+        }
+
+        const entry: RulesetHistoryEntry = {
+            channelID: change.channelID,
+            ruleset: change.ruleset,
+            difficulty: change.difficulty,
+            startedAt: change.time,
+            reason: change.reason,
+            messages: 0,
+            failRatio: NaN
+        };
+        entries.push(entry);
+        activeEntries.set(change.channelID, entry);
+    }
+
+    // The active rulesets' results so far come from the rule engine, if the game is still running in their channels
+    activeEntries.forEach(entry => {
+        const stats = getRulesetStats(entry.channelID);
+        if(stats === undefined) return;
+        entry.messages = stats.messages;
+        entry.failRatio = stats.failRatio;
+    });
+    return entries;
+}
+
+// Quotes a CSV field if it has anything that would break the row
+function csvField(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Formats ruleset history as CSV, with one row per ruleset and times in ISO 8601.
+ * @param entries
+ * @returns
+ */
+export function rulesetHistoryToCSV(entries: RulesetHistoryEntry[]): string {
+    const header = ["channel", "started", "ended", "rules", "difficulty", "messages", "fail_ratio", "reason", "end_reason"];
+    const rows = entries.map(entry => [
+        entry.channelID,
+        new Date(entry.startedAt).toISOString(),
+        entry.endedAt === undefined ? "" : new Date(entry.endedAt).toISOString(),
+        entry.ruleset.join(" "),
+        entry.difficulty.toFixed(2),
+        String(entry.messages),
+        isNaN(entry.failRatio) ? "" : entry.failRatio.toFixed(3),
+        entry.reason,
+        entry.endReason ?? ""
+    ]);
+    return [header, ...rows].map(row => row.map(csvField).join(",")).join("\n");
+}
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+
+let isValidRuleset: (ruleset: Set<string>) => boolean;
+
+before(async () => {
+  // Keep the real save data out of this; loading the rules also loads the rule engine's state
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.SAVE_DATA_PATH = path.join(testDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(testDirectory, "saveData.db");
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.env.RULESET_HISTORY_PATH = path.join(testDirectory, "rulesetHistory.log");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  ({ isValidRuleset } = await import("./rules"));
+});
+
+test("rulesets with contradictory rules are rejected", () => {
+  assert.equal(isValidRuleset(new Set(["all-lowercase", "all-uppercase"])), false);
+  assert.equal(isValidRuleset(new Set(["starts-with:q", "no-letter:q"])), false);
+  assert.equal(isValidRuleset(new Set(["todays-word:house", "no-letter:h"])), false);
+  assert.equal(isValidRuleset(new Set(["todays-word:house", "word-length:4"])), false);
+  assert.equal(isValidRuleset(new Set([
+    "all-lowercase", "all-uppercase", "unique-messages", "no-punctuation", "max-words:8",
+    "no-letter:z", "starts-with:t", "todays-word:that", "word-length:4"
+  ])), false);
+});
+
+test("messages without any text don't make text rules look compatible", () => {
+  // An emoji-only message has no words, so it would pass both rules
+  assert.equal(isValidRuleset(new Set(["only-emojis", "max-words:3"])), false);
+  // It still counts for a rule that looks at emoji
+  assert.equal(isValidRuleset(new Set(["only-emojis"])), true);
+});
+
+test("rulesets that an example passes are accepted", () => {
+  assert.equal(isValidRuleset(new Set(["all-lowercase"])), true);
+  assert.equal(isValidRuleset(new Set(["all-uppercase", "no-spaces"])), true);
+  assert.equal(isValidRuleset(new Set(["every-letter", "no-punctuation"])), true);
+  assert.equal(isValidRuleset(new Set(["every-letter", "never-repeats-letters"])), true);
+});
+
+test("rules that are too hard together are rejected even though an example passes them", () => {
+  assert.equal(isValidRuleset(new Set(["every-letter", "max-words:7"])), true);
+  assert.equal(isValidRuleset(new Set(["every-letter", "max-words:4"])), false);
+});
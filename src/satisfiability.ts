@@ -0,0 +1,85 @@
+import { MessageToken, parseMessage, renderMessage } from "./messageParser";
+import { Rule } from "./ruleConfig";
+
+// Rulesets are only used if at least one known-valid example message, or a variant of one, passes every rule.
+// Variants make it possible to find messages for combinations nobody wrote an example for, like uppercase with no spaces.
+const caseVariants = [(text: string) => text, (text: string) => text.toLowerCase(), (text: string) => text.toUpperCase()];
+const spacingVariants = [(text: string) => text, (text: string) => text.replace(/\s+/g, ""), (text: string) => text.split(/\s+/)[0]];
+const punctuationVariants = [(text: string) => text, (text: string) => text.replace(/[.,!?;]/g, "")];
+
+function variantsOf(example: string): string[] {
+  const variants = new Set<string>();
+  for(const caseVariant of caseVariants) {
+    for(const spacingVariant of spacingVariants) {
+      for(const punctuationVariant of punctuationVariants) {
+        variants.add(punctuationVariant(spacingVariant(caseVariant(example))));
+      }
+    }
+  }
+  return Array.from(variants);
+}
+
+let sharedCorpus: string[] = [];
+const parsedExamples: Map<string, MessageToken[]> = new Map();
+const ruleCorpora: Map<string, string[]> = new Map();
+const results: Map<string, boolean> = new Map();
+
+function parseExample(example: string): MessageToken[] {
+  if(!parsedExamples.has(example)) parsedExamples.set(example, parseMessage(example));
+  return parsedExamples.get(example)!;
+}
+
+// Whether a message has any text once mentions, emoji and the like are taken out
+function hasText(example: string): boolean {
+  return renderMessage(parseExample(example)) !== "";
+}
+
+/**
+ * Sets the example messages that every ruleset is checked against, usually the examples of all static rules.
+ * @param rules
+ */
+export function setExampleCorpus(rules: Rule[]): void {
+  // Examples with no text, like one made of emoji, would vacuously pass every rule about text
+  sharedCorpus = Array.from(new Set(rules.flatMap(rule => rule.examples ?? []).flatMap(variantsOf))).filter(hasText);
+  results.clear();
+}
+
+// Checks a message against a rule without asking Slack; rules that depend on past messages are assumed to pass.
+// A message with nothing left for the rule to check fails, since an empty message proves nothing about the rules it passes.
+function passesOffline(rule: Rule, example: string): boolean {
+  const tokens = parseExample(example);
+  const message = renderMessage(tokens, rule.counts);
+  if(message === "") return false;
+  if(rule.dependsOnHistory) return true;
+  return rule.check(message, tokens).passed;
+}
+
+/**
+ * Checks whether any known example message passes every rule in a ruleset.
+ * @param rules
+ * @returns
+ */
+export function isSatisfiable(rules: Rule[]): boolean {
+  const key = rules.map(rule => rule.id).sort().join(" ");
+  const cached = results.get(key);
+  if(cached !== undefined) return cached;
+
+  // Rules from templates bring their own examples, since the shared ones rarely fit their parameters
+  const ruleExamples = rules.flatMap(rule => {
+    if(!ruleCorpora.has(rule.id)) ruleCorpora.set(rule.id, (rule.examples ?? []).flatMap(variantsOf));
+    return ruleCorpora.get(rule.id)!;
+  });
+
+  const result = [...ruleExamples, ...sharedCorpus].some(example => rules.every(rule => passesOffline(rule, example)));
+  results.set(key, result);
+  return result;
+}
+
+/**
+ * Finds a rule's examples that don't actually pass it, so mistakes in the rules file can be reported.
+ * @param rule
+ * @returns
+ */
+export function getFailingExamples(rule: Rule): string[] {
+  return (rule.examples ?? []).filter(example => !passesOffline(rule, example));
+}
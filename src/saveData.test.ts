@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+
+let saveDataPath: string;
+let saveData: typeof import("./saveData")["saveData"];
+let ScorePeriod: typeof import("./saveData")["ScorePeriod"];
+
+// Save data from before it had a version number
+const versionZeroData = {
+  players: {
+    U1: { scoreAllTime: 12, scoreDays: { "19000": 5, "19001": 7 } },
+    U2: { scoreAllTime: 3, scoreDays: { "19001": 3 }, streak: 2 }
+  },
+  channels: { C1: { roughDifficulty: 4, minFailRatio: 0.1, maxFailRatio: 0.5, gameMode: "Charades" } }
+};
+
+before(async () => {
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  saveDataPath = path.join(testDirectory, "saveData.json");
+  fs.writeFileSync(saveDataPath, JSON.stringify(versionZeroData));
+  process.env.SAVE_DATA_PATH = saveDataPath;
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the save data loads from the file above
+  ({ saveData, ScorePeriod } = await import("./saveData"));
+  await saveData.ready;
+});
+
+test("save data from version 0 is migrated to the current version", () => {
+  const player1 = saveData.getPlayer("U1");
+  assert.equal(player1.score(ScorePeriod.AllTime), 12);
+  assert.equal(player1.getStreak(), 0);
+  assert.equal(player1.getOffenses(), 0);
+  assert.equal(player1.getCooldownUntil(), 0);
+  assert.deepEqual(player1.getAchievements(), {});
+  assert.equal(saveData.getScoreBetween("U1", 19000, 19001), 12);
+  assert.equal(saveData.getPlayer("U2").getStreak(), 2);
+
+  assert.deepEqual(saveData.getChannels(), versionZeroData.channels);
+  assert.deepEqual(saveData.getRuleStats(), { rules: {}, pairs: {} });
+  assert.deepEqual(saveData.getTeams(), { names: [], members: {} });
+});
+
+test("the old format is backed up before migrating", () => {
+  assert.deepEqual(JSON.parse(fs.readFileSync(`${saveDataPath}.v0.bak`, "utf-8")), versionZeroData);
+});
@@ -0,0 +1,672 @@
+import exitHook from "async-exit-hook";
+import { now } from "./clock";
+import { config, onConfigChange } from "./config";
+import { openStorage, Storage, StoredSaveData } from "./storage";
+
+// There's probably a better way to do this, but this works for now.
+
+type SerializedPlayerData = {
+    scoreAllTime: number;
+    scoreDays: {
+        [day: string]: number
+    };
+    streak: number;
+    offenses: number;
+    lastOffense: number;
+    cooldownUntil: number;
+    /** When the player unlocked each of their achievements, in milliseconds since the Unix epoch. */
+    achievements: { [achievementID: string]: number };
+};
+/** The settings of a channel the game is running in. */
+export type SerializedChannelSettings = {
+    /** The rough difficulty that new rulesets are generated around. */
+    roughDifficulty: number;
+    /** If less than this ratio of messages violate the rules, the ruleset is made harder. */
+    minFailRatio: number;
+    /** If more than this ratio of messages violate the rules, the ruleset is made easier. */
+    maxFailRatio: number;
+    /** The name of the channel's game mode. */
+    gameMode: string;
+    /** Whether rules are being enforced; missing in channels added before the game could be paused. */
+    paused?: boolean;
+    /** Whether players vote on the next ruleset; missing in channels added before voting existed. */
+    voting?: boolean;
+    /** The name of the channel's enforcement level; missing in channels added before there were levels. */
+    enforcement?: string;
+    /** The IDs of players the rules don't apply to. */
+    exemptUsers?: string[];
+    /** The IDs of rules that only apply to a team's players, by team; missing in channels added before there were teams. */
+    teamRules?: { [team: string]: string[] };
+};
+/** The state of a channel's rule engine. */
+export type SerializedRuleState = {
+    /** The IDs of the active rules. */
+    activeRules: string[];
+    /** The IDs of the rules each message sent under the active ruleset violated. */
+    violationHistory: string[][];
+    /** When the ruleset was last changed, in milliseconds since the Unix epoch. */
+    lastRulesetChange: number;
+    /** The IDs of the active rules that are kept secret; missing in states saved before rules could be secret. */
+    hiddenRules?: string[];
+};
+/** How often rules, and pairs of rules that were active together, have been followed. */
+export type SerializedRuleStats = {
+    rules: { [ruleID: string]: { checked: number, passed: number } };
+    /** Keyed by both rule IDs, sorted and separated by a space. */
+    pairs: { [pairKey: string]: { checked: number, bothPassed: number } };
+};
+/** The teams players can be on. */
+export type SerializedTeams = {
+    /** The names of every team. */
+    names: string[];
+    /** The team each player is on, keyed by the player's ID. */
+    members: { [playerID: string]: string };
+    /** The last week whose results were announced, in weeks since the Unix epoch, or undefined before the first. */
+    lastResultsWeek?: number;
+};
+type SerializedSaveData = {
+    version: number;
+    players: { [playerID: string]: SerializedPlayerData };
+    channels: { [channelID: string]: SerializedChannelSettings };
+    ruleStates: { [channelID: string]: SerializedRuleState };
+    ruleStats: SerializedRuleStats;
+    teams: SerializedTeams;
+};
+
+/**
+ * Applies a change to every player's data, for migrations.
+ * @param players
+ * @param change
+ * @returns
+ */
+function migratePlayers(players: unknown, change: (playerData: { [field: string]: unknown }) => object): StoredSaveData["players"] {
+    if(typeof players !== "object" || players === null) return {};
+    return Object.fromEntries(
+        Object.entries(players).map(([playerID, playerData]) => [playerID, change(typeof playerData === "object" && playerData !== null ? playerData : {})])
+    );
+}
+
+/**
+ * Migrations that upgrade save data from older versions of the format. The migration at index `n` upgrades
+ * save data from version `n` to version `n + 1`, so the current version is the number of migrations.
+ */
+const migrations: ((data: StoredSaveData) => StoredSaveData)[] = [
+    // Version 0 has no version number: just `players`, each with `scoreAllTime`, `scoreDays` and maybe a `streak`, and
+    // maybe `channels`
+    (data) => ({
+        version: 1,
+        players: migratePlayers(data.players, playerData => ({ ...playerData, streak: playerData.streak ?? 0 })),
+        channels: data.channels ?? {},
+        ruleStates: {}
+    }),
+    // Version 2 added statistics about how often rules are violated
+    (data) => ({ ...data, version: 2, ruleStats: { rules: {}, pairs: {} } }),
+    // Version 3 added cooldowns for players who keep violating rules
+    (data) => ({
+        ...data,
+        version: 3,
+        players: migratePlayers(data.players, playerData => ({ ...playerData, offenses: 0, lastOffense: 0, cooldownUntil: 0 }))
+    }),
+    // Version 4 added achievements
+    (data) => ({
+        ...data,
+        version: 4,
+        players: migratePlayers(data.players, playerData => ({ ...playerData, achievements: {} }))
+    }),
+    // Version 5 added teams
+    (data) => ({ ...data, version: 5, teams: { names: [], members: {} } })
+];
+const currentVersion = migrations.length;
+
+/**
+ * Upgrades save data to the current version of the format.
+ * @param data
+ * @returns
+ */
+function migrate(data: StoredSaveData): SerializedSaveData {
+    const version = data.version ?? 0;
+    if(typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+        throw new Error(`Save data version ${JSON.stringify(version)} isn't a valid version number.`);
+    }
+    if(version > currentVersion) {
+        throw new Error(`Save data version ${version} is newer than the supported version ${currentVersion}.`);
+    }
+    for(let i = version; i < currentVersion; i++) {
+        console.log("\x1b[33m", `Migrating save data from version ${i} to ${i + 1}...`, "\x1b[0m");
+        data = migrations[i](data);
+    }
+    // Every migration has run, so the data is in the current format
+    return data as SerializedSaveData;
+}
+
+export enum ScorePeriod {
+    AllTime,
+    Today,
+    PastWeek
+};
+
+export const scorePeriodNames: { [period in ScorePeriod]: string } = {
+    [ScorePeriod.AllTime]: "all time",
+    [ScorePeriod.Today]: "today",
+    [ScorePeriod.PastWeek]: "the past week"
+};
+
+/**
+ * A player's data, including their score.
+ */
+class PlayerData {
+    private scoreAllTime: number;
+    private scoreDays: {
+        /** The day, in days since the Unix epoch. */
+        [day: number]: number
+    };
+    /** The number of consecutive messages the player has sent that followed the active rules. */
+    private streak: number;
+    /** The number of rule violations the player has recently made, which decides how long their cooldowns are. */
+    private offenses: number;
+    /** When the player last violated a rule, in milliseconds since the Unix epoch. */
+    private lastOffense: number;
+    /** When the player's current cooldown ends, in milliseconds since the Unix epoch. */
+    private cooldownUntil: number;
+    /** When the player unlocked each of their achievements, in milliseconds since the Unix epoch. */
+    private achievements: { [achievementID: string]: number };
+
+    /**
+     * Loads player data from a serialized format.
+     * @param data
+     */
+    public constructor(data: SerializedPlayerData | null = null) {
+        if(data === null) {
+            this.scoreAllTime = 0;
+            this.scoreDays = {};
+            this.streak = 0;
+            this.offenses = 0;
+            this.lastOffense = 0;
+            this.cooldownUntil = 0;
+            this.achievements = {};
+        } else {
+            this.scoreAllTime = data.scoreAllTime;
+            this.scoreDays = data.scoreDays;
+            this.streak = data.streak;
+            this.offenses = data.offenses;
+            this.lastOffense = data.lastOffense;
+            this.cooldownUntil = data.cooldownUntil;
+            this.achievements = data.achievements;
+        }
+    }
+
+    /**
+     * Gets the current day, in days since the Unix epoch.
+     * @returns
+     */
+    private today() {
+        return Math.floor(now() / 1000 / 60 / 60 / 24);
+    }
+
+    /**
+     * Adds points to the player's score.
+     */
+    public addPoints(points: number) {
+        this.scoreAllTime += points;
+        const today = this.today();
+        this.scoreDays[today] = (this.scoreDays[today] ?? 0) + points;
+    }
+
+    /**
+     * Gets the player's score for the specified period.
+     * @param period 
+     * @returns 
+     */
+    public score(period: ScorePeriod): number {
+        switch(period) {
+            case ScorePeriod.AllTime:
+                return this.scoreAllTime;
+            case ScorePeriod.Today:
+                return this.scoreDays[this.today()] ?? 0;
+            case ScorePeriod.PastWeek:
+                const today = this.today();
+                let score = 0;
+                for(let i = 0; i < 7; i++) {
+                    score += this.scoreDays[today - i] ?? 0;
+                }
+                return score;
+            default:
+                const _exhaustiveCheck: never = period;
+                return _exhaustiveCheck;
+        }
+    }
+
+    /**
+     * Gets the player's total score over a range of days.
+     * @param firstDay The first day to include, in days since the Unix epoch.
+     * @param lastDay The last day to include.
+     * @returns
+     */
+    public scoreBetween(firstDay: number, lastDay: number): number {
+        let score = 0;
+        for(let day = firstDay; day <= lastDay; day++) {
+            score += this.scoreDays[day] ?? 0;
+        }
+        return score;
+    }
+
+    /**
+     * Gets the player's current streak of messages that followed the rules.
+     * @returns
+     */
+    public getStreak(): number {
+        return this.streak;
+    }
+
+    /**
+     * Extends the player's streak by one message.
+     */
+    public extendStreak() {
+        this.streak++;
+    }
+
+    /**
+     * Resets the player's streak.
+     */
+    public breakStreak() {
+        this.streak = 0;
+    }
+
+    /**
+     * Gets how many days in a row, up to and including today, the player has earned points.
+     * @returns
+     */
+    public getDayStreak(): number {
+        const today = this.today();
+        let days = 0;
+        while((this.scoreDays[today - days] ?? 0) > 0) days++;
+        return days;
+    }
+
+    /**
+     * Gets the number of rule violations the player has recently made.
+     * @returns
+     */
+    public getOffenses(): number {
+        return this.offenses;
+    }
+
+    /**
+     * Gets when the player last violated a rule.
+     * @returns The time in milliseconds since the Unix epoch, or 0 if they never have.
+     */
+    public getLastOffense(): number {
+        return this.lastOffense;
+    }
+
+    /**
+     * Gets when the player's cooldown ends.
+     * @returns The time in milliseconds since the Unix epoch, which is in the past if they aren't in a cooldown.
+     */
+    public getCooldownUntil(): number {
+        return this.cooldownUntil;
+    }
+
+    /**
+     * Records a rule violation and the cooldown it earned.
+     * @param offenses The number of recent violations, including this one.
+     * @param time When the violation happened.
+     * @param cooldownUntil When the cooldown ends.
+     */
+    public recordOffense(offenses: number, time: number, cooldownUntil: number) {
+        this.offenses = offenses;
+        this.lastOffense = time;
+        this.cooldownUntil = cooldownUntil;
+    }
+
+    /**
+     * Gets the player's achievements.
+     * @returns When each achievement was unlocked, in milliseconds since the Unix epoch, keyed by its ID.
+     */
+    public getAchievements(): { [achievementID: string]: number } {
+        return this.achievements;
+    }
+
+    /**
+     * Unlocks an achievement, unless the player already has it.
+     * @param achievementID
+     * @param time When it was unlocked.
+     * @returns Whether the achievement was newly unlocked.
+     */
+    public unlockAchievement(achievementID: string, time: number): boolean {
+        if(this.achievements[achievementID] !== undefined) return false;
+        this.achievements[achievementID] = time;
+        return true;
+    }
+
+    /**
+     * Gets the player's score for each of the past few days, starting with today.
+     * @param days The number of days to include.
+     * @returns
+     */
+    public dailyHistory(days: number): { day: number, score: number }[] {
+        const today = this.today();
+        return Array.from({ length: days }, (_, i) => ({ day: today - i, score: this.scoreDays[today - i] ?? 0 }));
+    }
+
+    /**
+     * Serializes the player data to a format that can be saved to a file.
+     * @returns
+     */
+    public serialize(): SerializedPlayerData {
+        return {
+            scoreAllTime: this.scoreAllTime,
+            scoreDays: this.scoreDays,
+            streak: this.streak,
+            offenses: this.offenses,
+            lastOffense: this.lastOffense,
+            cooldownUntil: this.cooldownUntil,
+            achievements: this.achievements
+        };
+    }
+};
+
+/**
+ * The save data for the game, including player data, the channels the game is running in and their rule engine state.
+ */
+class SaveData {
+    /** The player data. */
+    private players: {
+        [playerID: string]: PlayerData
+    };
+    /** The settings of each channel the game is running in. */
+    private channels: {
+        [channelID: string]: SerializedChannelSettings
+    };
+    /** The rule engine state of each channel the game is running in. */
+    private ruleStates: {
+        [channelID: string]: SerializedRuleState
+    };
+    /** How often each rule and pair of rules has been followed. */
+    private ruleStats: SerializedRuleStats;
+    /** The teams and who is on them. */
+    private teams: SerializedTeams;
+    /** Resolves once the save data has been loaded. */
+    public readonly ready: Promise<void>;
+    private readonly storage: Storage;
+    private autosaveTimer: NodeJS.Timeout;
+    /** Set if the data couldn't be loaded, so saving doesn't replace it with empty data. */
+    private savingDisabled: boolean = false;
+
+    /**
+     * Creates a new SaveData object and loads the save data from storage if there is any.
+     * @param storage
+     * @param autosaveInterval How often to save the data, in milliseconds.
+     */
+    public constructor(storage: Storage, autosaveInterval: number) {
+        this.storage = storage;
+        this.players = {};
+        this.channels = {};
+        this.ruleStates = {};
+        this.ruleStats = { rules: {}, pairs: {} };
+        this.teams = { names: [], members: {} };
+        this.ready = this.load();
+
+        // Attatch a listener to process exit to save the data before the program closes
+        exitHook(async (callback) => {
+            await this.save();
+            callback();
+        });
+        
+        // Automatically save the data every so often
+        this.autosaveTimer = setInterval(() => this.save(), autosaveInterval);
+    }
+
+    /**
+     * Changes how often the data is saved automatically.
+     * @param autosaveInterval In milliseconds.
+     */
+    public setAutosaveInterval(autosaveInterval: number) {
+        clearInterval(this.autosaveTimer);
+        this.autosaveTimer = setInterval(() => this.save(), autosaveInterval);
+    }
+
+    /**
+     * Writes the game's save data to storage.
+     */
+    private async save() {
+        // Saving before the data has loaded would replace it with empty data
+        await this.ready;
+        if(this.savingDisabled) {
+            console.error("Not saving game data, since it couldn't be loaded. Fix or restore the save data and restart the bot.");
+            return;
+        }
+        console.log("\x1b[33m", "Saving game data...", "\x1b[0m");
+        const data: SerializedSaveData = {
+            version: currentVersion,
+            players: Object.fromEntries(
+                Object.entries(this.players).map(([playerID, playerData]) => [playerID, playerData.serialize()])
+            ),
+            channels: this.channels,
+            ruleStates: this.ruleStates,
+            ruleStats: this.ruleStats,
+            teams: this.teams
+        };
+        try {
+            await this.storage.save(data);
+            console.log("\x1b[32m", "Game data saved!", "\x1b[0m");
+        } catch(error) {
+            console.error("Failed to save game data:", error);
+        }
+    }
+
+    /**
+     * Loads the game's save data from storage.
+     * @returns
+     */
+    private async load() {
+        try {
+            const rawData = await this.storage.load();
+            if(rawData === undefined) {
+                console.log("\x1b[33m", `No save data found in the ${this.storage.description}; starting fresh.`, "\x1b[0m");
+                return;
+            }
+            if((rawData.version ?? 0) < currentVersion) {
+                // Keep a copy of the old format in case a migration goes wrong
+                await this.storage.backUp(`v${rawData.version ?? 0}.bak`);
+            }
+
+            const data = migrate(rawData);
+            this.players = Object.fromEntries(
+                Object.entries(data.players).map(([playerID, playerData]) => [playerID, new PlayerData(playerData)])
+            );
+            this.channels = data.channels;
+            this.ruleStates = data.ruleStates;
+            this.ruleStats = data.ruleStats;
+            this.teams = data.teams;
+            console.log("\x1b[32m", `Game data loaded from the ${this.storage.description}!`, "\x1b[0m");
+        } catch(error) {
+            // Playing on with empty data is better than not at all, but saving it would overwrite everyone's progress
+            console.error("Failed to load save data. Starting with empty data, and saving is disabled until the bot restarts.", error);
+            this.savingDisabled = true;
+            this.players = {};
+            this.channels = {};
+            this.ruleStates = {};
+            this.ruleStats = { rules: {}, pairs: {} };
+            this.teams = { names: [], members: {} };
+            try {
+                await this.storage.backUp("failed.bak");
+            } catch(backupError) {
+                console.error("Failed to back up the save data that couldn't be loaded:", backupError);
+            }
+        }
+    }
+
+    /**
+     * Gets the leaderboard for a specified period.
+     * @param period
+     * @param topPlayers 
+     * @returns 
+     */
+    public getLeaderboard(period: ScorePeriod, topPlayers: number = 10): string {
+        const topPlayersData = this.getTopPlayers(period, topPlayers);
+        if(topPlayersData.length === 0) {
+            return "No players found.";
+        }
+
+        let leaderboard = `Top ${topPlayersData.length} players for ${scorePeriodNames[period]}:  \n`;
+        leaderboard += topPlayersData.map(({ playerID, score }, index) => `${index + 1}. <@${playerID}>: ${score}`).join("  \n");
+        return leaderboard;
+    }
+
+    /**
+     * Gets the players with the highest scores for a specified period, highest first.
+     * @param period
+     * @param topPlayers
+     * @returns
+     */
+    public getTopPlayers(period: ScorePeriod, topPlayers: number = 10): { playerID: string, score: number }[] {
+        return Object.entries(this.players)
+            .map(([playerID, playerData]) => ({ playerID, score: playerData.score(period) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, topPlayers);
+    }
+
+    /**
+     * Gets a summary of a player's scores, including their rank for each period and their recent daily history.
+     * @param playerID
+     * @param historyDays The number of days of history to include.
+     * @returns
+     */
+    public getPlayerSummary(playerID: string, historyDays: number = 7): string {
+        const playerData = this.players[playerID];
+        if(playerData === undefined) {
+            return `<@${playerID}> hasn't scored any points yet.`;
+        }
+
+        const periods = [ScorePeriod.AllTime, ScorePeriod.PastWeek, ScorePeriod.Today];
+        const playerCount = Object.keys(this.players).length;
+        let summary = `Scores for <@${playerID}>:  \n`;
+        summary += periods.map(period => {
+            const score = playerData.score(period);
+            const rank = Object.values(this.players).filter(otherPlayer => otherPlayer.score(period) > score).length + 1;
+            return `${scorePeriodNames[period]}: ${score} (rank ${rank}/${playerCount})`;
+        }).join("  \n");
+
+        summary += `\n\nPast ${historyDays} days:  \n`;
+        summary += playerData.dailyHistory(historyDays).map(({ day, score }) => {
+            const date = new Date(day * 1000 * 60 * 60 * 24).toISOString().slice(0, 10);
+            return `${date}: ${score}`;
+        }).join("  \n");
+        return summary;
+    }
+
+    /**
+     * Adds points to a player's score.
+     */
+    public addPoints(playerID: string, points: number) {
+        this.getPlayer(playerID).addPoints(points);
+    }
+
+    /**
+     * Gets when a player unlocked each of their achievements.
+     * @param playerID
+     * @returns The time in milliseconds since the Unix epoch, keyed by the achievement's ID.
+     */
+    public getAchievements(playerID: string): { [achievementID: string]: number } {
+        return this.players[playerID]?.getAchievements() ?? {};
+    }
+
+    /**
+     * Gets a player's total score over a range of days.
+     * @param playerID
+     * @param firstDay The first day to include, in days since the Unix epoch.
+     * @param lastDay The last day to include.
+     * @returns The score, which is 0 if the player doesn't have any data.
+     */
+    public getScoreBetween(playerID: string, firstDay: number, lastDay: number): number {
+        return this.players[playerID]?.scoreBetween(firstDay, lastDay) ?? 0;
+    }
+
+    /**
+     * Removes all of a player's points and their streak.
+     * @param playerID
+     * @returns Whether the player had any data to remove.
+     */
+    public resetPlayer(playerID: string): boolean {
+        if(this.players[playerID] === undefined) return false;
+        delete this.players[playerID];
+        return true;
+    }
+
+    /**
+     * Gets the settings of every channel the game is running in.
+     * @returns
+     */
+    public getChannels(): { [channelID: string]: SerializedChannelSettings } {
+        return this.channels;
+    }
+
+    /**
+     * Adds a channel the game is running in, or updates its settings.
+     * @param channelID
+     * @param settings
+     */
+    public setChannel(channelID: string, settings: SerializedChannelSettings) {
+        this.channels[channelID] = settings;
+    }
+
+    /**
+     * Removes a channel the game is running in.
+     * @param channelID
+     */
+    public removeChannel(channelID: string) {
+        delete this.channels[channelID];
+        delete this.ruleStates[channelID];
+    }
+
+    /**
+     * Gets the saved rule engine state of a channel.
+     * @param channelID
+     * @returns The state, or undefined if none has been saved for the channel.
+     */
+    public getRuleState(channelID: string): SerializedRuleState | undefined {
+        return this.ruleStates[channelID];
+    }
+
+    /**
+     * Saves the rule engine state of a channel.
+     * @param channelID
+     * @param state
+     */
+    public setRuleState(channelID: string, state: SerializedRuleState) {
+        this.ruleStates[channelID] = state;
+    }
+
+    /**
+     * Gets the statistics about how often rules have been followed. Changes to the returned object are saved.
+     * @returns
+     */
+    public getRuleStats(): SerializedRuleStats {
+        return this.ruleStats;
+    }
+
+    /**
+     * Gets the teams and who is on them. Changes to the returned object are saved.
+     * @returns
+     */
+    public getTeams(): SerializedTeams {
+        return this.teams;
+    }
+
+    /**
+     * Gets a player's data, creating it if the player doesn't have any yet.
+     * @param playerID
+     * @returns
+     */
+    public getPlayer(playerID: string): PlayerData {
+        if(this.players[playerID] === undefined) {
+            this.players[playerID] = new PlayerData();
+        }
+        return this.players[playerID];
+    }
+};
+
+// Kept in a JSON file unless the config asks for SQLite
+export const saveData: SaveData = new SaveData(openStorage(config.storage), config.intervals.autosave);
+onConfigChange(config => saveData.setAutosaveInterval(config.intervals.autosave));
@@ -0,0 +1,233 @@
+// Replays a transcript of channel messages through the rule engine without connecting to Slack, to see how the
+// rules would have adapted. Usage: npm run simulate -- <transcript> [options]; run with --help for the options.
+
+import "dotenv/config";
+import { App } from "@slack/bolt";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseArgs } from "util";
+import type { RulesetChange } from "./rules";
+
+type TranscriptMessage = {
+  time: number,
+  user: string,
+  text: string
+};
+
+const usage = `Usage: npm run simulate -- <transcript> [options]
+
+The transcript is a JSON array or a file with one JSON object per line. Each message needs a "ts" (Unix seconds, like
+Slack's "1700000000.000100", or a date string) and a "text", and can have a "user". Slack channel exports work as-is.
+
+Options:
+  --rough-difficulty <n>        The rough difficulty new rulesets are generated around
+  --min-fail-ratio <n>          Below this fail ratio, the ruleset is made harder
+  --max-fail-ratio <n>          Above this fail ratio, the ruleset is made easier
+  --change-chance <n>           The chance of adapting the ruleset on each check
+  --complete-change-chance <n>  The chance of replacing the ruleset entirely on each check
+  --mutation-amount <n>         The number of rules changed in each mutation
+  --mutation-iterations <n>     The number of mutations tried when adapting
+  --minimum-sample-size <n>     The number of messages needed before adapting
+  --seed <n>                    Seed the random number generator, for repeatable runs
+  --json                        Print the timeline as JSON
+  --verbose                     Show the rule engine's own logs`;
+
+// A small seeded random number generator (mulberry32), so runs with the same seed make the same choices
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function parseTime(ts: unknown): number {
+  if(typeof ts === "number") return ts * 1000;
+  if(typeof ts === "string" && /^\d+(\.\d+)?$/.test(ts)) return parseFloat(ts) * 1000;
+  if(typeof ts === "string" && !isNaN(Date.parse(ts))) return Date.parse(ts);
+  throw new Error(`Invalid message timestamp: ${JSON.stringify(ts)}`);
+}
+
+function loadTranscript(file: string): TranscriptMessage[] {
+  const content = fs.readFileSync(file, "utf-8").trim();
+  const entries: unknown[] = content.startsWith("[")
+    ? JSON.parse(content)
+    : content.split("\n").filter(line => line.trim() !== "").map(line => JSON.parse(line));
+
+  return entries
+    .filter((entry): entry is { [field: string]: unknown } => typeof entry === "object" && entry !== null)
+    // Same as the message handler: ignore joins, edits, bot messages and so on
+    .filter(entry => entry.subtype === undefined || entry.subtype === "thread_broadcast")
+    .map(entry => ({
+      time: parseTime(entry.ts),
+      user: typeof entry.user === "string" ? entry.user : "unknown",
+      text: typeof entry.text === "string" ? entry.text : ""
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Creates a stand-in for the Slack client that answers every call without a network connection.
+ * Searches are answered from the messages replayed so far.
+ */
+function createStandInApp(history: TranscriptMessage[]): App {
+  const handler = (method: string) => async (args: { query?: unknown } = {}) => {
+    switch(method) {
+      case "search.messages": {
+        const query = String(args.query).toLowerCase();
+        return { ok: true, messages: { total: history.filter(message => message.text.toLowerCase() === query).length } };
+      }
+      case "conversations.info":
+        return { ok: true, channel: { properties: { canvas: { file_id: "F0SIMULATED" } } } };
+      case "canvases.sections.lookup":
+        return { ok: true, sections: [{ id: "S0SIMULATED" }] };
+      default:
+        return { ok: true };
+    }
+  };
+  // Any method path, like client.chat.postMessage, resolves to the handler
+  const proxy = (path: string): unknown => new Proxy(handler(path), {
+    get: (_, property: string) => proxy(path === "" ? property : `${path}.${property}`)
+  });
+  return { client: proxy("") } as unknown as App;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function formatRatio(ratio: number): string {
+  return isNaN(ratio) ? "-" : ratio.toFixed(2);
+}
+
+(async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "rough-difficulty": { type: "string" },
+      "min-fail-ratio": { type: "string" },
+      "max-fail-ratio": { type: "string" },
+      "change-chance": { type: "string" },
+      "complete-change-chance": { type: "string" },
+      "mutation-amount": { type: "string" },
+      "mutation-iterations": { type: "string" },
+      "minimum-sample-size": { type: "string" },
+      "seed": { type: "string" },
+      "json": { type: "boolean" },
+      "verbose": { type: "boolean" },
+      "help": { type: "boolean" }
+    }
+  });
+  if(values.help || positionals.length !== 1) {
+    console.log(usage);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const number = (name: keyof typeof values): number | undefined => {
+    const value = values[name];
+    if(value === undefined) return undefined;
+    const parsed = Number(value);
+    if(isNaN(parsed)) {
+      console.error(`--${name} must be a number.`);
+      process.exit(1);
+    }
+    return parsed;
+  };
+
+  const transcript = loadTranscript(positionals[0]);
+  if(transcript.length === 0) {
+    console.error("The transcript doesn't have any messages.");
+    process.exit(1);
+  }
+
+  // Keep the real save data out of this; the rule engine saves its state as it goes
+  const simulationDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-simulation-"));
+  process.env.SAVE_DATA_PATH = path.join(simulationDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(simulationDirectory, "saveData.db");
+  process.env.MESSAGE_INDEX_PATH = path.join(simulationDirectory, "messageIndex.json");
+  process.on("exit", () => fs.rmSync(simulationDirectory, { recursive: true, force: true }));
+
+  const seed = number("seed");
+  if(seed !== undefined) Math.random = seededRandom(seed);
+
+  const log = console.log;
+  if(!values.verbose) console.log = () => {};
+
+  // Imported here so the environment is set up before the modules load
+  const { setClock } = await import("./clock");
+  const { config } = await import("./config");
+  const { indexMessage } = await import("./messageIndex");
+  const { addToViolationHistory, defaultDifficultySettings, engineSettings, evaluateChange, getRulesetStats, getViolations, initializeRules, onRulesetChange, waitForAnnouncements } = await import("./rules");
+
+  const overrides: [keyof typeof values, keyof typeof engineSettings][] = [
+    ["change-chance", "changeChance"],
+    ["complete-change-chance", "completeChangeChance"],
+    ["mutation-amount", "mutationAmount"],
+    ["mutation-iterations", "mutationIterations"],
+    ["minimum-sample-size", "minimumSampleSize"]
+  ];
+  for(const [option, setting] of overrides) {
+    engineSettings[setting] = number(option) ?? engineSettings[setting];
+  }
+  const settings = {
+    roughDifficulty: number("rough-difficulty") ?? defaultDifficultySettings.roughDifficulty,
+    minFailRatio: number("min-fail-ratio") ?? defaultDifficultySettings.minFailRatio,
+    maxFailRatio: number("max-fail-ratio") ?? defaultDifficultySettings.maxFailRatio
+  };
+
+  let currentTime = transcript[0].time;
+  setClock(() => currentTime);
+
+  const replayed: TranscriptMessage[] = [];
+  const app = createStandInApp(replayed);
+  const channelID = "C0SIMULATED";
+  const changes: RulesetChange[] = [];
+  onRulesetChange(change => changes.push(change));
+
+  initializeRules(channelID, settings, app);
+  // The engine doesn't change the ruleset while the last change is being announced, which the stand-in app does instantly
+  await waitForAnnouncements(channelID);
+
+  // The bot also checks for changes every so often, whether or not anyone is talking
+  const checkInterval = config.intervals.evaluateChanges;
+  let nextCheck = currentTime + checkInterval;
+  for(const message of transcript) {
+    while(nextCheck <= message.time) {
+      currentTime = nextCheck;
+      evaluateChange(channelID, app);
+      await waitForAnnouncements(channelID);
+      nextCheck += checkInterval;
+    }
+
+    currentTime = message.time;
+    const violations = await getViolations(channelID, message.text, app);
+    replayed.push(message);
+    indexMessage(channelID, String(message.time / 1000), message.text);
+    addToViolationHistory(channelID, violations.map(violation => violation.rule));
+    evaluateChange(channelID, app);
+    await waitForAnnouncements(channelID);
+  }
+
+  const final = getRulesetStats(channelID)!;
+
+  if(values.json) {
+    log(JSON.stringify({ settings: { ...settings, ...engineSettings }, changes, final }, null, 2));
+    process.exit(0);
+  }
+
+  log(`Replayed ${transcript.length} messages from ${formatTime(transcript[0].time)} to ${formatTime(transcript[transcript.length - 1].time)}.\n`);
+  changes.forEach((change, index) => {
+    const outcome = changes[index + 1]?.previous ?? { messages: final.messages, failRatio: final.failRatio };
+    log(`${formatTime(change.time)}  difficulty ${change.difficulty.toFixed(1)}  ${outcome.messages} messages  fail ratio ${formatRatio(outcome.failRatio)}`);
+    log(`  ${change.reason}`);
+    log(`  Rules: ${change.ruleset.join(", ") || "none"}`);
+  });
+
+  const failRatios = changes.map((_, index) => changes[index + 1]?.previous?.failRatio ?? final.failRatio).filter(ratio => !isNaN(ratio));
+  const averageFailRatio = failRatios.reduce((sum, ratio) => sum + ratio, 0) / failRatios.length;
+  const averageDifficulty = changes.reduce((sum, change) => sum + change.difficulty, 0) / changes.length;
+  log(`\n${changes.length} rulesets, average difficulty ${averageDifficulty.toFixed(1)}, average fail ratio ${formatRatio(averageFailRatio)} (target ${settings.minFailRatio} to ${settings.maxFailRatio}).`);
+  process.exit(0);
+})();
@@ -0,0 +1,46 @@
+import { webApi } from "@slack/bolt";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { callSlack, queueSlackCall } from "./slackQueue";
+
+function rateLimitedError() {
+  return Object.assign(new Error("A rate limit was exceeded"), { code: webApi.ErrorCode.RateLimitedError, retryAfter: 0 });
+}
+
+test("rate limited calls are tried again, but other failures aren't", async () => {
+  let attempts = 0;
+  const result = await callSlack("post a message", async () => {
+    if(++attempts < 3) throw rateLimitedError();
+    return "posted";
+  });
+  assert.equal(result, "posted");
+  assert.equal(attempts, 3);
+
+  attempts = 0;
+  await assert.rejects(queueSlackCall("C1", "post a message", async () => {
+    attempts++;
+    throw new Error("socket hang up");
+  }), /socket hang up/);
+  assert.equal(attempts, 1);
+});
+
+test("calls for a channel happen in order without holding up other channels", async () => {
+  const events: string[] = [];
+  let finishSlowCall!: () => void;
+  const slowCall = queueSlackCall("C1", "post a slow message", () => new Promise<void>(resolve => {
+    finishSlowCall = resolve;
+  }).then(() => { events.push("C1 first"); }));
+  const nextCall = queueSlackCall("C1", "post the next message", async () => { events.push("C1 second"); });
+  await queueSlackCall("C2", "post in another channel", async () => { events.push("C2"); });
+
+  finishSlowCall();
+  await Promise.all([slowCall, nextCall]);
+  assert.deepEqual(events, ["C2", "C1 first", "C1 second"]);
+});
+
+test("a failed call doesn't stop the rest of its channel's queue", async () => {
+  const failed = queueSlackCall("C3", "delete a message", async () => { throw new Error("message_not_found"); });
+  const next = queueSlackCall("C3", "post a message", async () => "posted");
+  await assert.rejects(failed, /message_not_found/);
+  assert.equal(await next, "posted");
+});
@@ -0,0 +1,56 @@
+import { webApi } from "@slack/bolt";
+
+// Calls to Slack's Web API that change something, like posting messages, adding reactions or editing canvases, go
+// through a queue for their channel, one at a time and in order, so a channel's announcements, canvas edits and
+// reactions can't overlap or arrive out of order while other channels carry on. Calls that only read go straight out.
+// When Slack says we're sending too much, a call waits as long as Slack asks and tries again. Nothing else is retried:
+// a post that failed on the way back may still have gone through, and sending it again would post it twice.
+
+const maximumAttempts = 5;
+
+// The end of each channel's queue, which resolves once every call queued for the channel so far has finished
+const queues: Map<string, Promise<void>> = new Map();
+
+/**
+ * Adds a Web API call that changes something to the queue for its channel.
+ * @param channelID The channel the call is about, or the user for a DM.
+ * @param description What the call does, for the logs, like "post the new ruleset in C123".
+ * @param call A function that makes the call. It's called again if Slack rate limits it.
+ * @returns The call's result, once it has succeeded.
+ * @throws The error if the call fails, or is still rate limited after a few tries.
+ */
+export function queueSlackCall<T>(channelID: string, description: string, call: () => Promise<T>): Promise<T> {
+  const result = (queues.get(channelID) ?? Promise.resolve()).then(() => callSlack(description, call));
+  const queueEnd = result.then(() => {}, () => {});
+  queues.set(channelID, queueEnd);
+  // Forget the queue once it's empty, so it doesn't keep a promise around for every channel
+  queueEnd.then(() => {
+    if(queues.get(channelID) === queueEnd) queues.delete(channelID);
+  });
+  return result;
+}
+
+/**
+ * Makes a Web API call right away, like one that only reads, waiting and trying again if Slack rate limits it.
+ * @param description What the call does, for the logs, like "get the info of C123".
+ * @param call A function that makes the call. It's called again if Slack rate limits it.
+ * @returns The call's result, once it has succeeded.
+ * @throws The error if the call fails, or is still rate limited after a few tries.
+ */
+export async function callSlack<T>(description: string, call: () => Promise<T>): Promise<T> {
+  for(let attempts = 1; ; attempts++) {
+    try {
+      return await call();
+    } catch(error) {
+      if(!isRateLimitedError(error) || attempts >= maximumAttempts) throw error;
+      console.log("\x1b[33m", `Rate limited while trying to ${description} (attempt ${attempts}); retrying in ${error.retryAfter}s.`, "\x1b[0m");
+      await new Promise(resolve => setTimeout(resolve, error.retryAfter * 1000));
+    }
+  }
+}
+
+// Whether an error is Slack saying we're sending too much, which says how long to wait in its Retry-After header
+function isRateLimitedError(error: unknown): error is webApi.WebAPIRateLimitedError {
+  return error instanceof Error && "code" in error && error.code === webApi.ErrorCode.RateLimitedError
+    && "retryAfter" in error && typeof error.retryAfter === "number";
+}
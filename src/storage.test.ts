@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { JSONFileStorage, SQLiteStorage } from "./storage";
+
+let testDirectory: string;
+
+before(() => {
+  testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+});
+
+const savedData = {
+  version: 5,
+  players: { U1: { scoreAllTime: 3 }, U2: { scoreAllTime: 7 } },
+  channels: { C1: { roughDifficulty: 3 } }
+};
+
+test("JSON storage loads nothing before the first save, then what was saved", async () => {
+  const storage = new JSONFileStorage(path.join(testDirectory, "fresh.json"));
+  assert.equal(await storage.load(), undefined);
+  await storage.save(savedData);
+  assert.deepEqual(await storage.load(), savedData);
+});
+
+test("JSON storage falls back to a backup when the file is corrupted", async () => {
+  const savePath = path.join(testDirectory, "corrupted.json");
+  const storage = new JSONFileStorage(savePath);
+  await storage.save(savedData);
+  // The first save had nothing to back up, so this one backs up the first
+  await new JSONFileStorage(savePath).save({ ...savedData, players: {} });
+  fs.writeFileSync(savePath, "{\"version\": 5, \"players\": {");
+
+  assert.deepEqual(await new JSONFileStorage(savePath).load(), savedData);
+  // The broken file is kept to fix by hand
+  assert.equal(fs.readFileSync(`${savePath}.bak`, "utf-8"), "{\"version\": 5, \"players\": {");
+});
+
+test("JSON storage refuses to load corrupted data without a backup", async () => {
+  const savePath = path.join(testDirectory, "unrecoverable.json");
+  fs.writeFileSync(savePath, "not json");
+  await assert.rejects(new JSONFileStorage(savePath).load(), /no backup/);
+});
+
+test("SQLite storage round-trips the save data", async () => {
+  const databasePath = path.join(testDirectory, "saveData.db");
+  const storage = new SQLiteStorage(databasePath);
+  assert.equal(await storage.load(), undefined);
+  await storage.save(savedData);
+  assert.deepEqual(await new SQLiteStorage(databasePath).load(), savedData);
+
+  // Players that are gone from the data are removed
+  const withoutU2 = { ...savedData, players: { U1: savedData.players.U1 } };
+  await storage.save(withoutU2);
+  assert.deepEqual(await storage.load(), withoutU2);
+
+  await storage.backUp("test.bak");
+  assert.deepEqual(await new SQLiteStorage(`${databasePath}.test.bak`).load(), withoutU2);
+});
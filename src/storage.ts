@@ -0,0 +1,219 @@
+import * as fsPromises from "fs/promises";
+import Database from "better-sqlite3";
+import { config, StorageType } from "./config";
+
+/**
+ * The save data as it's stored, which may be from an older version: every section is plain JSON, and `players` maps
+ * each player's ID to their data.
+ */
+export type StoredSaveData = {
+    version?: number;
+    players: { [playerID: string]: unknown };
+    [section: string]: unknown;
+};
+
+/**
+ * Somewhere the save data can be kept.
+ */
+export interface Storage {
+    /** A description of where the data is kept, for logs. */
+    readonly description: string;
+    /**
+     * Reads the save data.
+     * @returns The data, or undefined if nothing has been saved yet.
+     * @throws If the data is there but can't be read.
+     */
+    load(): Promise<StoredSaveData | undefined>;
+    /**
+     * Replaces the save data. A save that fails partway through leaves the previous data intact.
+     * @param data
+     */
+    save(data: StoredSaveData): Promise<void>;
+    /**
+     * Copies the save data as it is now, like before migrating it to a new version.
+     * @param suffix Added to the path of the copy, like "v2.bak".
+     */
+    backUp(suffix: string): Promise<void>;
+}
+
+/**
+ * Writes a file by way of a temporary file that then replaces it, so a crash partway through can't leave it half-written.
+ * Writes to the same file shouldn't overlap, since they share the temporary file.
+ * @param path
+ * @param content
+ */
+export async function writeFileAtomically(path: string, content: string): Promise<void> {
+    const temporaryPath = `${path}.tmp`;
+    const file = await fsPromises.open(temporaryPath, "w");
+    try {
+        await file.writeFile(content);
+        await file.sync(); // Make sure the data is on disk before it replaces the old file
+    } finally {
+        await file.close();
+    }
+    await fsPromises.rename(temporaryPath, path);
+}
+
+/**
+ * Parses a log with one JSON value per line, skipping any line that can't be parsed, like one cut off by a crash.
+ * @param content
+ * @param path Where the content came from, for logs.
+ * @returns
+ */
+export function parseJSONLines<T>(content: string, path: string): T[] {
+    const values: T[] = [];
+    content.split("\n").forEach((line, index) => {
+        if(line.trim() === "") return;
+        try {
+            values.push(JSON.parse(line));
+        } catch {
+            console.error(`Skipping line ${index + 1} of ${path}, which isn't valid JSON.`);
+        }
+    });
+    return values;
+}
+
+const backupCount = 5; // How many rotated backups the JSON store keeps
+const backupInterval = 1000 * 60 * 60; // Backups are rotated at most once an hour, so they reach back 5 hours
+
+/**
+ * Keeps the save data in a JSON file. Saves are written to a temporary file that then replaces the real one, so a
+ * crash can't leave a half-written file, and older versions are kept as rotated backups to fall back on.
+ */
+export class JSONFileStorage implements Storage {
+    public readonly description: string;
+    private readonly path: string;
+    /** The save in progress, so saves happen one at a time instead of writing the temporary file together. */
+    private lastSave: Promise<void> = Promise.resolve();
+    private lastBackup: number = 0;
+
+    public constructor(path: string) {
+        this.path = path;
+        this.description = `JSON file ${path}`;
+    }
+
+    private backupPath(number: number): string {
+        return `${this.path}.backup-${number}`;
+    }
+
+    public async load(): Promise<StoredSaveData | undefined> {
+        let content: string;
+        try {
+            content = await fsPromises.readFile(this.path, "utf-8");
+        } catch {
+            return undefined; // Nothing has been saved yet
+        }
+        try {
+            return JSON.parse(content);
+        } catch {
+            console.error(`${this.path} is corrupted; looking for a backup.`);
+        }
+
+        // Keep the broken file around in case it can be fixed by hand
+        await fsPromises.copyFile(this.path, `${this.path}.bak`).catch(() => console.error("Failed to back up the corrupted save data."));
+        for(let number = 1; number <= backupCount; number++) {
+            try {
+                const data = JSON.parse(await fsPromises.readFile(this.backupPath(number), "utf-8"));
+                console.log("\x1b[33m", `Loaded the save data from ${this.backupPath(number)} instead.`, "\x1b[0m");
+                return data;
+            } catch {
+                continue;
+            }
+        }
+        throw new Error(`${this.path} is corrupted, and there's no backup of it to use instead.`);
+    }
+
+    public save(data: StoredSaveData): Promise<void> {
+        const save = this.lastSave.then(() => this.write(data));
+        this.lastSave = save.catch(() => {});
+        return save;
+    }
+
+    private async write(data: StoredSaveData): Promise<void> {
+        await this.rotateBackups();
+        await writeFileAtomically(this.path, JSON.stringify(data));
+    }
+
+    // Shifts every backup one place older, dropping the oldest, and backs up the current file as the newest
+    private async rotateBackups(): Promise<void> {
+        if(Date.now() - this.lastBackup < backupInterval) return;
+        try {
+            await fsPromises.access(this.path);
+        } catch {
+            return; // Nothing to back up yet
+        }
+        for(let number = backupCount - 1; number >= 1; number--) {
+            await fsPromises.rename(this.backupPath(number), this.backupPath(number + 1)).catch(() => {});
+        }
+        await fsPromises.copyFile(this.path, this.backupPath(1));
+        this.lastBackup = Date.now();
+    }
+
+    public async backUp(suffix: string): Promise<void> {
+        await fsPromises.copyFile(this.path, `${this.path}.${suffix}`);
+    }
+}
+
+/**
+ * Keeps the save data in a SQLite database, with a row for each player and one for each other section. Each save is
+ * a single transaction, so it either happens completely or not at all.
+ */
+export class SQLiteStorage implements Storage {
+    public readonly description: string;
+    private readonly path: string;
+    private readonly database: Database.Database;
+
+    public constructor(path: string) {
+        this.path = path;
+        this.description = `SQLite database ${path}`;
+        this.database = new Database(path);
+        this.database.pragma("journal_mode = WAL");
+        this.database.exec(`
+            CREATE TABLE IF NOT EXISTS sections (name TEXT PRIMARY KEY, data TEXT NOT NULL);
+            CREATE TABLE IF NOT EXISTS players (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+        `);
+    }
+
+    public async load(): Promise<StoredSaveData | undefined> {
+        const sections = this.database.prepare("SELECT name, data FROM sections").all() as { name: string, data: string }[];
+        if(sections.length === 0) return undefined;
+        const players = this.database.prepare("SELECT id, data FROM players").all() as { id: string, data: string }[];
+        return {
+            ...Object.fromEntries(sections.map(({ name, data }) => [name, JSON.parse(data)])),
+            players: Object.fromEntries(players.map(({ id, data }) => [id, JSON.parse(data)]))
+        };
+    }
+
+    public async save(data: StoredSaveData): Promise<void> {
+        const { players, ...sections } = data;
+        const saveSection = this.database.prepare("INSERT OR REPLACE INTO sections (name, data) VALUES (?, ?)");
+        const savePlayer = this.database.prepare("INSERT INTO players (id, data) VALUES (?, ?)");
+        // Players are replaced all together, so players whose data was reset are removed
+        this.database.transaction(() => {
+            Object.entries(sections).forEach(([name, section]) => saveSection.run(name, JSON.stringify(section)));
+            this.database.prepare("DELETE FROM players").run();
+            Object.entries(players).forEach(([id, player]) => savePlayer.run(id, JSON.stringify(player)));
+        })();
+    }
+
+    public async backUp(suffix: string): Promise<void> {
+        await this.database.backup(`${this.path}.${suffix}`);
+    }
+}
+
+/**
+ * Opens a type of storage at the path in the config, or in its environment variable if that's set.
+ * @param type
+ * @returns
+ */
+export function openStorage(type: StorageType): Storage {
+    switch(type) {
+        case "json":
+            return new JSONFileStorage(process.env.SAVE_DATA_PATH ?? config.paths.saveData);
+        case "sqlite":
+            return new SQLiteStorage(process.env.SAVE_DATABASE_PATH ?? config.paths.saveDatabase);
+        default:
+            const _exhaustiveCheck: never = type;
+            return _exhaustiveCheck;
+    }
+}
@@ -0,0 +1,75 @@
+import { App } from "@slack/bolt";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import { before, mock, test } from "node:test";
+import * as os from "os";
+import * as path from "path";
+import { setClock } from "./clock";
+
+let teams: typeof import("./teams");
+let saveData: typeof import("./saveData")["saveData"];
+
+const hour = 1000 * 60 * 60;
+
+before(async () => {
+  // Keep the real save data out of this, since teams and scores are stored in it
+  const testDirectory = fs.mkdtempSync(path.join(os.tmpdir(), "chameleon-test-"));
+  process.env.SAVE_DATA_PATH = path.join(testDirectory, "saveData.json");
+  process.env.SAVE_DATABASE_PATH = path.join(testDirectory, "saveData.db");
+  process.env.MESSAGE_INDEX_PATH = path.join(testDirectory, "messageIndex.json");
+  process.env.RULESET_HISTORY_PATH = path.join(testDirectory, "rulesetHistory.log");
+  process.on("exit", () => fs.rmSync(testDirectory, { recursive: true, force: true }));
+
+  // Imported here so the environment is set up before the modules load
+  teams = await import("./teams");
+  ({ saveData } = await import("./saveData"));
+  await saveData.ready;
+});
+
+// Lets the announcement that a timer started finish posting
+function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+test("each week's results are announced once, after it ends on Sunday", async () => {
+  const posts: string[] = [];
+  const app = { client: { chat: { postMessage: async ({ text }: { text: string }) => { posts.push(text); return { ok: true }; } } } };
+  saveData.setChannel("C1", { roughDifficulty: 3, minFailRatio: 0.1, maxFailRatio: 0.5, gameMode: "Charades" });
+  teams.createTeam("red");
+  teams.createTeam("blue");
+  teams.setPlayerTeam("U1", "red");
+  teams.setPlayerTeam("U2", "red");
+  teams.setPlayerTeam("U3", "blue");
+
+  // Wednesday, January 3rd 2024
+  let time = Date.UTC(2024, 0, 3, 12);
+  setClock(() => time);
+  mock.timers.enable({ apis: ["setInterval"] });
+  teams.startTeamResults(app as unknown as App);
+  await settle();
+  saveData.addPoints("U1", 10);
+  saveData.addPoints("U2", 5);
+  saveData.addPoints("U3", 12);
+
+  // The last hour of Sunday is still part of the week
+  time = Date.UTC(2024, 0, 7, 23);
+  saveData.addPoints("U3", 4);
+  mock.timers.tick(hour);
+  await settle();
+  assert.deepEqual(posts, []);
+
+  // Points from the new week don't count towards the last one
+  time = Date.UTC(2024, 0, 8, 1);
+  saveData.addPoints("U1", 100);
+  mock.timers.tick(hour);
+  await settle();
+  assert.equal(posts.length, 1);
+  assert.match(posts[0], /week of 2024-01-01/);
+  assert.match(posts[0], /1\. \*blue\*: 16\n2\. \*red\*: 15/);
+  assert.match(posts[0], /Congratulations to team \*blue\*!/);
+
+  mock.timers.tick(hour);
+  await settle();
+  assert.equal(posts.length, 1);
+  mock.timers.reset();
+});
@@ -0,0 +1,219 @@
+import { App } from "@slack/bolt";
+import { getChannelSettings, getGameChannels, updateChannelSettings } from "./channels";
+import { now } from "./clock";
+import { config } from "./config";
+import { getRuleName, getRulesetStats, isValidRuleset } from "./rules";
+import { saveData, ScorePeriod, scorePeriodNames } from "./saveData";
+import { queueSlackCall } from "./slackQueue";
+
+// Players can be on a team, either one they join or the smallest one when they first play. A team's score is the
+// total of its players' scores, so a player who is moved to another team takes their points with them.
+
+const teamResultsCheckInterval = 1000 * 60 * 60; // How often to check whether a week has ended, in milliseconds
+
+/**
+ * Checks whether a team name is allowed: lowercase letters, digits and dashes, up to 20 characters.
+ * @param name
+ * @returns
+ */
+export function isValidTeamName(name: string): boolean {
+    return /^[a-z0-9-]{1,20}$/.test(name);
+}
+
+/**
+ * Gets the names of every team.
+ * @returns
+ */
+export function getTeamNames(): string[] {
+    return saveData.getTeams().names;
+}
+
+/**
+ * Gets the team a player is on.
+ * @param playerID
+ * @returns The team's name, or undefined if the player isn't on a team.
+ */
+export function getPlayerTeam(playerID: string): string | undefined {
+    return saveData.getTeams().members[playerID];
+}
+
+/**
+ * Gets the IDs of the players on a team.
+ * @param team
+ * @returns
+ */
+export function getTeamMembers(team: string): string[] {
+    return Object.entries(saveData.getTeams().members).filter(([, memberTeam]) => memberTeam === team).map(([playerID]) => playerID);
+}
+
+/**
+ * Creates a team.
+ * @param name A name that passes isValidTeamName.
+ * @returns Whether the team was created; false if there's already a team with the name.
+ */
+export function createTeam(name: string): boolean {
+    const teams = saveData.getTeams();
+    if(teams.names.includes(name)) return false;
+    teams.names.push(name);
+    return true;
+}
+
+/**
+ * Removes a team, taking its players off it and removing its rules in every channel.
+ * @param name
+ * @param app
+ * @returns Whether the team was removed; false if there's no team with the name.
+ */
+export function removeTeam(name: string, app: App): boolean {
+    const teams = saveData.getTeams();
+    if(!teams.names.includes(name)) return false;
+    teams.names = teams.names.filter(team => team !== name);
+    getTeamMembers(name).forEach(playerID => delete teams.members[playerID]);
+
+    for(const channelID of getGameChannels()) {
+        const { [name]: _removed, ...teamRules } = getChannelSettings(channelID)!.teamRules;
+        updateChannelSettings(channelID, { teamRules }, app);
+    }
+    return true;
+}
+
+/**
+ * Puts a player on a team, taking them off any team they were on.
+ * @param playerID
+ * @param team The name of an existing team.
+ */
+export function setPlayerTeam(playerID: string, team: string) {
+    saveData.getTeams().members[playerID] = team;
+}
+
+/**
+ * Puts a player who isn't on a team on the team with the fewest players, picking randomly between ties.
+ * @param playerID
+ * @returns The team the player was put on, or undefined if they were already on one or there are no teams.
+ */
+export function assignTeam(playerID: string): string | undefined {
+    const teams = saveData.getTeams();
+    if(teams.members[playerID] !== undefined || teams.names.length === 0) return undefined;
+
+    const sizes = teams.names.map(team => ({ team, size: getTeamMembers(team).length }));
+    const smallestSize = Math.min(...sizes.map(({ size }) => size));
+    const smallestTeams = sizes.filter(({ size }) => size === smallestSize);
+    const team = smallestTeams[Math.floor(Math.random() * smallestTeams.length)].team;
+    teams.members[playerID] = team;
+    console.log("\x1b[33m", `Assigned ${playerID} to team ${team}.`, "\x1b[0m");
+    return team;
+}
+
+/**
+ * Gets every team's total score for a period, highest first.
+ * @param period
+ * @returns
+ */
+export function getTeamScores(period: ScorePeriod): { team: string, score: number, members: number }[] {
+    const playerScores = new Map(saveData.getTopPlayers(period, Infinity).map(({ playerID, score }) => [playerID, score]));
+    return getTeamNames()
+        .map(team => {
+            const members = getTeamMembers(team);
+            return { team, score: members.reduce((total, playerID) => total + (playerScores.get(playerID) ?? 0), 0), members: members.length };
+        })
+        .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Gets the team leaderboard for a period.
+ * @param period
+ * @returns
+ */
+export function getTeamLeaderboard(period: ScorePeriod): string {
+    const scores = getTeamScores(period);
+    if(scores.length === 0) {
+        return "No teams have been created.";
+    }
+
+    let leaderboard = `Team scores for ${scorePeriodNames[period]}:  \n`;
+    leaderboard += scores.map(({ team, score, members }, index) => `${index + 1}. *${team}*: ${score} (${members} ${members === 1 ? "player" : "players"})`).join("  \n");
+    return leaderboard;
+}
+
+/**
+ * Gets the extra rules that apply to a player in a channel because of their team. Team rules that can't be active
+ * alongside the channel's shared ruleset are left out until the shared ruleset changes.
+ * @param channelID
+ * @param playerID
+ * @returns The IDs of the rules.
+ */
+export function getTeamRules(channelID: string, playerID: string): string[] {
+    const team = getPlayerTeam(playerID);
+    const teamRules = team === undefined ? [] : getChannelSettings(channelID)?.teamRules[team] ?? [];
+    const ruleset = new Set(getRulesetStats(channelID)?.ruleset ?? []);
+    return teamRules.filter(id => {
+        if(ruleset.has(id) || !isValidRuleset(new Set([...ruleset, id]))) return false;
+        ruleset.add(id);
+        return true;
+    });
+}
+
+/**
+ * Describes the rules that only apply to some teams in a channel.
+ * @param channelID
+ * @returns The description, or an empty string if there are no team rules.
+ */
+export function getTeamRulesMessage(channelID: string): string {
+    const teamRules = Object.entries(getChannelSettings(channelID)?.teamRules ?? {}).filter(([, rules]) => rules.length > 0);
+    if(teamRules.length === 0) return "";
+    return "Team rules, on top of the rules above:\n" + teamRules.map(([team, rules]) => `• *${team}*: ${rules.map(getRuleName).join(", ")}`).join("\n");
+}
+
+/**
+ * Gets the current week, in weeks since the Unix epoch. Weeks start on Monday, in UTC.
+ * @returns
+ */
+function currentWeek(): number {
+    const today = Math.floor(now() / 1000 / 60 / 60 / 24);
+    return Math.floor((today + 3) / 7); // The Unix epoch was a Thursday
+}
+
+/**
+ * Announces the results of the week that just ended in every game channel, if it hasn't been announced yet.
+ * @param app
+ */
+async function announceTeamResults(app: App) {
+    const teams = saveData.getTeams();
+    const week = currentWeek();
+    if(teams.lastResultsWeek === undefined) teams.lastResultsWeek = week; // Weeks before teams existed have no results
+    if(teams.lastResultsWeek >= week) return;
+    teams.lastResultsWeek = week;
+    if(teams.names.length === 0 || config.announcements !== "all") return;
+
+    // The week that just ended, from Monday to Sunday
+    const firstDay = (week - 1) * 7 - 3;
+    const scores = teams.names
+        .map(team => ({ team, score: getTeamMembers(team).reduce((total, playerID) => total + saveData.getScoreBetween(playerID, firstDay, firstDay + 6), 0) }))
+        .sort((a, b) => b.score - a.score);
+    const winners = scores.filter(({ score }) => score === scores[0].score).map(({ team }) => `*${team}*`);
+    const weekStart = new Date(firstDay * 1000 * 60 * 60 * 24).toISOString().slice(0, 10);
+    const text = `:trophy: Team results for the week of ${weekStart}:\n`
+        + scores.map(({ team, score }, index) => `${index + 1}. *${team}*: ${score}`).join("\n")
+        + (scores[0].score > 0 ? `\n\nCongratulations to ${winners.length === 1 ? "team" : "teams"} ${winners.join(" and ")}!` : "");
+    console.log("\x1b[33m", `Announcing the team results for the week of ${weekStart}.`, "\x1b[0m");
+
+    for(const channelID of getGameChannels()) {
+        try {
+            await queueSlackCall(channelID, `announce the team results in ${channelID}`, () => app.client.chat.postMessage({
+                channel: channelID,
+                text
+            }));
+        } catch(error) {
+            console.error(`Failed to announce the team results in ${channelID}:`, error);
+        }
+    }
+}
+
+/**
+ * Announces each week's team results once it ends. Should be called once the save data has loaded.
+ * @param app
+ */
+export function startTeamResults(app: App) {
+    announceTeamResults(app);
+    setInterval(() => announceTeamResults(app), teamResultsCheckInterval);
+}
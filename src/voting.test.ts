@@ -0,0 +1,71 @@
+import { App } from "@slack/bolt";
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { registerVoteActions, runVote, VoteOption } from "./voting";
+
+type ActionHandler = (args: { ack: () => Promise<void>, body: unknown, action: unknown }) => Promise<void>;
+
+// Just enough of an app to post a vote and press its buttons
+function createFakeApp() {
+  let actionHandler: ActionHandler | undefined;
+  let nextTS = 1;
+  const app = {
+    action: (_pattern: RegExp, handler: ActionHandler) => { actionHandler = handler; },
+    client: {
+      chat: {
+        postMessage: async () => ({ ok: true, ts: `${nextTS++}.000` }),
+        update: async () => ({ ok: true }),
+        postEphemeral: async () => ({ ok: true })
+      }
+    }
+  };
+  const pressVoteButton = (userID: string, value: string) => actionHandler!({
+    ack: async () => {},
+    body: { type: "block_actions", user: { id: userID } },
+    action: { type: "button", value }
+  });
+  return { app: app as unknown as App, pressVoteButton };
+}
+
+const options: VoteOption[] = [
+  { ruleset: new Set(["all-lowercase"]), ruleNames: ["All lowercase"], difficulty: 2 },
+  { ruleset: new Set(["no-spaces"]), ruleNames: ["No spaces"], difficulty: 3 },
+  { ruleset: new Set(["only-emojis"]), ruleNames: ["Only emoji"], difficulty: 4 }
+];
+
+// Vote IDs count up from 1 in the order votes are started
+let voteID = 0;
+
+test("the option with the most votes wins, and voting again replaces a player's vote", async () => {
+  const { app, pressVoteButton } = createFakeApp();
+  registerVoteActions(app);
+  const result = runVote("C1", options, "The ruleset is changing.", 100, app);
+  const id = ++voteID;
+
+  await pressVoteButton("U1", `${id}:1`);
+  await pressVoteButton("U2", `${id}:2`);
+  await pressVoteButton("U3", `${id}:2`);
+  await pressVoteButton("U2", `${id}:1`);
+  // Out of range options and unknown votes are ignored
+  await pressVoteButton("U4", `${id}:7`);
+  await pressVoteButton("U4", "999:0");
+  assert.equal(await result, 1);
+});
+
+test("ties go to the earliest option", async () => {
+  const { app, pressVoteButton } = createFakeApp();
+  registerVoteActions(app);
+  const result = runVote("C1", options, "The ruleset is changing.", 100, app);
+  const id = ++voteID;
+
+  await pressVoteButton("U1", `${id}:2`);
+  await pressVoteButton("U2", `${id}:1`);
+  assert.equal(await result, 1);
+});
+
+test("a vote nobody joins keeps the first option", async () => {
+  const { app } = createFakeApp();
+  const result = runVote("C1", options, "The ruleset is changing.", 50, app);
+  ++voteID;
+  assert.equal(await result, 0);
+});
@@ -0,0 +1,135 @@
+import { App, types } from "@slack/bolt";
+import { queueSlackCall } from "./slackQueue";
+
+/** A ruleset players can vote for. */
+export type VoteOption = {
+  ruleset: Set<string>,
+  /** The names of the rules in the ruleset. */
+  ruleNames: string[],
+  difficulty: number
+};
+
+type Vote = {
+  channelID: string,
+  reason: string,
+  options: VoteOption[],
+  /** The option each player voted for, by index. Voting again replaces a player's vote. */
+  ballots: Map<string, number>,
+  closesAt: number,
+  messageTS?: string
+};
+
+const votes: Map<string, Vote> = new Map();
+let nextVoteID = 1;
+
+const voteActionPattern = /^ruleset_vote_\d+$/;
+
+function tally(vote: Vote): number[] {
+  const counts = vote.options.map(() => 0);
+  vote.ballots.forEach(option => counts[option]++);
+  return counts;
+}
+
+// Ties go to the earliest option, which is the one the rule engine picked itself, so a vote nobody joins changes nothing
+function winningOption(vote: Vote): number {
+  const counts = tally(vote);
+  return counts.indexOf(Math.max(...counts));
+}
+
+function voteBlocks(voteID: string, vote: Vote, closed: boolean): types.KnownBlock[] {
+  const counts = tally(vote);
+  const closesAt = Math.floor(vote.closesAt / 1000);
+  const header = closed
+    ? `${vote.reason}\nVoting has closed, and option ${winningOption(vote) + 1} won.`
+    : `${vote.reason}\nVote for the next ruleset! Voting closes <!date^${closesAt}^{time}|soon>.`;
+
+  return [
+    { type: "section", text: { type: "mrkdwn", text: header } },
+    ...vote.options.map((option, index): types.KnownBlock => {
+      const difficulty = Math.round(option.difficulty);
+      const rules = option.ruleNames.map(name => `• ${name}`).join("\n") || "• No rules";
+      const votesText = `${counts[index]} ${counts[index] === 1 ? "vote" : "votes"}`;
+      return {
+        type: "section",
+        text: { type: "mrkdwn", text: `*Option ${index + 1}* (${difficulty} :tw_star:, ${votesText})\n${rules}` },
+        ...(closed ? {} : {
+          accessory: {
+            type: "button",
+            text: { type: "plain_text", text: "Vote" },
+            action_id: `ruleset_vote_${index}`,
+            value: `${voteID}:${index}`
+          }
+        })
+      };
+    })
+  ];
+}
+
+async function updateVoteMessage(voteID: string, vote: Vote, closed: boolean, app: App): Promise<void> {
+  if(vote.messageTS === undefined) return;
+  await queueSlackCall(vote.channelID, `update the ruleset vote in ${vote.channelID}`, () => app.client.chat.update({
+    channel: vote.channelID,
+    ts: vote.messageTS!,
+    text: vote.reason,
+    blocks: voteBlocks(voteID, vote, closed)
+  }));
+}
+
+/**
+ * Posts rulesets for players to vote on, and waits for the vote to close.
+ * @param channelID
+ * @param options The rulesets to vote on; the first is used if there's a tie.
+ * @param reason Why the ruleset is changing.
+ * @param duration How long the vote stays open, in milliseconds.
+ * @param app
+ * @returns The index of the option that won.
+ */
+export async function runVote(channelID: string, options: VoteOption[], reason: string, duration: number, app: App): Promise<number> {
+  const voteID = String(nextVoteID++);
+  const vote: Vote = { channelID, reason, options, ballots: new Map(), closesAt: Date.now() + duration };
+  votes.set(voteID, vote);
+
+  try {
+    const message = await queueSlackCall(channelID, `post the ruleset vote in ${channelID}`, () => app.client.chat.postMessage({
+      channel: channelID,
+      text: `${reason} Vote for the next ruleset!`,
+      blocks: voteBlocks(voteID, vote, false)
+    }));
+    vote.messageTS = message.ts;
+  } catch(error) {
+    console.error("Couldn't post the ruleset vote:", error);
+    votes.delete(voteID);
+    return 0;
+  }
+
+  await new Promise(resolve => setTimeout(resolve, duration));
+  votes.delete(voteID);
+  const winner = winningOption(vote);
+  console.log('\x1b[33m', `Vote in ${channelID} closed: ${tally(vote).join(", ")} votes, option ${winner + 1} won.`, '\x1b[0m');
+  await updateVoteMessage(voteID, vote, true, app).catch(error => console.error("Couldn't close the ruleset vote:", error));
+  return winner;
+}
+
+/**
+ * Listens for presses of the vote buttons. Should be called once when the app starts.
+ * @param app
+ */
+export function registerVoteActions(app: App): void {
+  app.action(voteActionPattern, async ({ ack, body, action }) => {
+    await ack();
+    if(action.type !== "button" || body.type !== "block_actions") return;
+
+    const [voteID, optionText] = action.value?.split(":") ?? [];
+    const vote = votes.get(voteID);
+    const option = parseInt(optionText);
+    if(vote === undefined || isNaN(option) || option < 0 || option >= vote.options.length) return;
+
+    vote.ballots.set(body.user.id, option);
+    await updateVoteMessage(voteID, vote, false, app);
+    await queueSlackCall(vote.channelID, `confirm ${body.user.id}'s vote`, () => app.client.chat.postEphemeral({
+      channel: vote.channelID,
+      user: body.user.id,
+      text: `You voted for option ${option + 1}. You can change your vote until voting closes.`
+    }));
+  });
+}